@@ -25,9 +25,123 @@ export interface Config {
       ldap?: {
         [environment: string]: {
           /**
-           * LDAP server URL, e.g. ldaps://ldap.example.com:636
+           * LDAP server URL, e.g. ldaps://ldap.example.com:636, or a list of
+           * servers to spread connections across. Required unless
+           * `directories` are configured.
            */
-          url: string;
+          url?: string | string[];
+          /**
+           * Several directories to sign in to, e.g. for multiple Active
+           * Directory forests. Users are routed to a directory by the prefix
+           * or suffix of the username they type, which is removed before the
+           * user is looked up. Each directory takes the same connection,
+           * search, attribute, groups and passwordChange settings as the
+           * environment; access, groupMapping, throttling and signIn apply to
+           * all directories.
+           */
+          directories?: Array<{
+            /**
+             * Name of the directory, recorded as `directory` in the
+             * providerInfo of a sign-in.
+             */
+            name: string;
+            /**
+             * Username realms routed to this directory. A directory without
+             * match rules is used for usernames no rule matches.
+             */
+            match?: {
+              /**
+               * Username prefixes such as `CORP\`, matched case-insensitively.
+               */
+              prefixes?: string[];
+              /**
+               * Username suffixes such as `@corp.example.org`, matched
+               * case-insensitively.
+               */
+              suffixes?: string[];
+            };
+            url: string | string[];
+            searchBase: string;
+            bindDN?: string;
+            /**
+             * @visibility secret
+             */
+            bindCredentials?: string;
+            tls?: {
+              /**
+               * @visibility secret
+               */
+              key?: string;
+            };
+          }>;
+          /**
+           * How the username typed by a user is normalized before it is
+           * routed to a directory and looked up. The steps run in the order
+           * listed here. The uid of the signed in user is always read from
+           * the directory entry, whatever the user typed.
+           */
+          usernameNormalization?: {
+            /**
+             * Whether surrounding whitespace is removed.
+             * @default true
+             */
+            trim?: boolean;
+            /**
+             * Unicode normalization form of the username.
+             * @default NFC
+             */
+            unicode?: 'NFC' | 'NFKC' | 'none';
+            /**
+             * Whether a `DOMAIN\` prefix and an `@domain` suffix are removed.
+             * Leave this off with `directories`, which remove the realms they
+             * match themselves.
+             * @default false
+             */
+            stripDomain?: boolean;
+            /**
+             * Regex rewrites applied in order, e.g. `^adm-(.*)$` to `$1`.
+             */
+            rewrites?: Array<{
+              pattern: string;
+              replacement: string;
+            }>;
+            /**
+             * Case folding of the username.
+             * @default none
+             */
+            case?: 'lower' | 'upper' | 'none';
+          };
+          /**
+           * Whether to try each of the `directories` in order when no match
+           * rule matches the username, moving on to the next directory if
+           * the user isn't found in one.
+           * @default false
+           */
+          tryEachDirectory?: boolean;
+          /**
+           * How connections are spread across the servers when `url` is a
+           * list.
+           */
+          servers?: {
+            /**
+             * `failover` always uses the first healthy server in the list,
+             * `roundRobin` rotates through the healthy servers.
+             * @default failover
+             */
+            strategy?: 'failover' | 'roundRobin';
+            /**
+             * Consecutive connection errors after which a server is taken
+             * out of rotation.
+             * @default 3
+             */
+            maxFailures?: number;
+            /**
+             * Milliseconds between background retries of a server that was
+             * taken out of rotation.
+             * @default 30000
+             */
+            cooldown?: number;
+          };
           /**
            * Distinguished Name to bind as for searching users.
            * Omit for anonymous bind.
@@ -39,9 +153,20 @@ export interface Config {
            */
           bindCredentials?: string;
           /**
-           * Base DN under which to search for users.
+           * Binds as the user directly instead of searching for them with a
+           * service account, for directories that allow neither service
+           * accounts nor anonymous searches. Either a DN such as
+           * `uid={{username}},ou=users,dc=example,dc=org`, in which the
+           * username is escaped per RFC 4514, or a UPN such as
+           * `{{username}}@corp.example.org`, in which case the user's entry
+           * is searched for with the searchFilter after the bind.
            */
-          searchBase: string;
+          bindDNTemplate?: string;
+          /**
+           * Base DN under which to search for users. Required unless
+           * `directories` are configured.
+           */
+          searchBase?: string;
           /**
            * The LDAP attribute used as the unique username.
            * @default uid
@@ -57,6 +182,46 @@ export interface Config {
            * @default ["mail", "displayName", "memberOf"]
            */
           userAttributes?: string[];
+          /**
+           * Binary attributes to fetch for the user, such as objectGUID,
+           * objectSid, thumbnailPhoto or userCertificate, and how their
+           * values are encoded. `buffer` keeps the raw bytes, for use by
+           * server-side sign-in resolvers and profile transforms.
+           */
+          binaryAttributes?: {
+            [attribute: string]: 'base64' | 'hex' | 'guid' | 'sid' | 'buffer';
+          };
+          /**
+           * Attributes the profile fields are read from. Each value is an
+           * attribute name or a template such as `{{givenName}} {{sn}}`.
+           */
+          attributeMap?: {
+            /**
+             * The user id.
+             * @default the usernameAttribute
+             */
+            uid?: string;
+            /**
+             * The display name.
+             * @default displayName
+             */
+            displayName?: string;
+            /**
+             * The email address.
+             * @default mail
+             */
+            email?: string;
+            /**
+             * A binary photo attribute such as jpegPhoto or thumbnailPhoto,
+             * returned as a data URL, or an attribute holding a picture URL.
+             */
+            picture?: string;
+            /**
+             * Photos larger than this many bytes are left out of the profile.
+             * @default 102400
+             */
+            pictureMaxSize?: number;
+          };
           /**
            * TLS configuration for the LDAP connection.
            */
@@ -66,6 +231,287 @@ export interface Config {
              * @default true
              */
             rejectUnauthorized?: boolean;
+            /**
+             * Whether to upgrade plain ldap:// connections with StartTLS
+             * before any bind.
+             * @default false
+             */
+            startTls?: boolean;
+            /**
+             * Whether to refuse sending passwords over a connection that is
+             * neither ldaps:// nor upgraded with StartTLS.
+             * @default false
+             */
+            required?: boolean;
+            /**
+             * CA certificates to trust, as inline PEM or a path to a PEM
+             * file. May contain several certificates.
+             */
+            ca?: string;
+            /**
+             * Client certificate, as inline PEM or a path to a PEM file.
+             */
+            cert?: string;
+            /**
+             * Private key of the client certificate, as inline PEM or a path
+             * to a PEM file.
+             * @visibility secret
+             */
+            key?: string;
+            /**
+             * Server name to verify the certificate against, if it differs
+             * from the host in the URL.
+             */
+            servername?: string;
+            /**
+             * Minimum TLS protocol version.
+             */
+            minVersion?: 'TLSv1' | 'TLSv1.1' | 'TLSv1.2' | 'TLSv1.3';
+          };
+          /**
+           * Timeouts for talking to the LDAP servers. When they are exceeded
+           * the server is considered unavailable rather than the credentials
+           * rejected.
+           */
+          timeouts?: {
+            /**
+             * Milliseconds to wait for a TCP connection to be established.
+             * @default 5000
+             */
+            connect?: number;
+            /**
+             * Milliseconds to wait for a bind, search or other operation.
+             * @default 10000
+             */
+            operation?: number;
+          };
+          /**
+           * Pool of connections bound as the service account, reused for
+           * the user search across logins.
+           */
+          pool?: {
+            /**
+             * Maximum number of open connections.
+             * @default 5
+             */
+            maxSize?: number;
+            /**
+             * Milliseconds after which an unused connection is closed.
+             * @default 300000
+             */
+            idleTimeout?: number;
+            /**
+             * Milliseconds between keep-alive probes of idle connections.
+             * Set to 0 to disable.
+             * @default 60000
+             */
+            keepAliveInterval?: number;
+          };
+          /**
+           * Sessions that outlive the Backstage token. A sign-in sets an
+           * encrypted, httpOnly refresh cookie, with which the user is looked
+           * up again and checked against the access rules whenever the
+           * frontend refreshes the token. Sessions of directories with a
+           * bindDNTemplate can't be refreshed. Signing out revokes the
+           * session, or every session of the user with `?everywhere=true`,
+           * in the cache service until it would have expired.
+           */
+          session?: {
+            /**
+             * Whether sign-ins set a refresh cookie. Defaults to whether a
+             * secret is set.
+             */
+            enabled?: boolean;
+            /**
+             * Secret the refresh cookies are encrypted with, shared by all
+             * backend replicas. Sessions stay disabled without it, and a
+             * warning is logged if they were enabled explicitly.
+             * @visibility secret
+             */
+            secret?: string;
+            /**
+             * Milliseconds after sign-in for which the session can be
+             * refreshed without entering the password again.
+             * @default 604800000
+             */
+            maxAge?: number;
+          };
+          /**
+           * Throttling of failed sign-in attempts, to protect the directory
+           * from password spraying and accounts from being locked out. Once
+           * a limit is reached, further attempts are blocked for `backoff`
+           * milliseconds, doubling with every further failure.
+           */
+          throttling?: {
+            /**
+             * Whether failed sign-in attempts are throttled.
+             * @default true
+             */
+            enabled?: boolean;
+            /**
+             * Milliseconds for which failed attempts are remembered.
+             * @default 900000
+             */
+            window?: number;
+            /**
+             * Failed attempts per username before it is blocked.
+             * @default 5
+             */
+            maxFailuresPerUser?: number;
+            /**
+             * Failed attempts per client IP before it is blocked. Client IPs
+             * aren't counted unless this is set. The client IP is the
+             * `req.ip` of Express, so behind a load balancer or ingress the
+             * backend must trust the proxy (the `trust proxy` setting of
+             * Express), or else all users share the IP of the proxy and are
+             * blocked together.
+             */
+            maxFailuresPerIp?: number;
+            /**
+             * Milliseconds of the first block.
+             * @default 1000
+             */
+            backoff?: number;
+            /**
+             * Upper limit for the block duration in milliseconds.
+             * @default 900000
+             */
+            maxBackoff?: number;
+          };
+          /**
+           * Group membership lookup.
+           */
+          groups?: {
+            /**
+             * Base DN under which to search for groups. Defaults to the
+             * searchBase of the users.
+             */
+            searchBase?: string;
+            /**
+             * Filter matching the group entries, e.g.
+             * `(objectClass=groupOfNames)`. If set, the groups listing the
+             * user as a member are searched for after the bind, for
+             * directories that don't maintain a memberOf attribute.
+             */
+            filter?: string;
+            /**
+             * Group attribute that lists the members, e.g. `member` for
+             * groupOfNames, `uniqueMember` for groupOfUniqueNames or
+             * `memberUid` for posixGroup.
+             * @default member
+             */
+            memberAttribute?: string;
+            /**
+             * Whether the member attribute holds user DNs or user ids.
+             * Defaults to `uid` for `memberUid` and `dn` otherwise.
+             */
+            memberValue?: 'dn' | 'uid';
+            /**
+             * How nested group memberships are resolved. `matchingRuleInChain`
+             * and `tokenGroups` are Active Directory specific, `recursive`
+             * searches for the groups that list each group as a member.
+             * @default none
+             */
+            expansion?:
+              | 'none'
+              | 'matchingRuleInChain'
+              | 'tokenGroups'
+              | 'recursive';
+            /**
+             * Maximum number of levels walked by the `recursive` expansion.
+             * @default 10
+             */
+            maxDepth?: number;
+          };
+          /**
+           * Group based rules for who may sign in, checked before the
+           * sign-in resolvers run. Groups can be given as DNs or CNs.
+           */
+          access?: {
+            /**
+             * Users must be a member of at least one of these groups, if any
+             * are given.
+             */
+            allowedGroups?: string[];
+            /**
+             * Members of these groups are rejected, even if they are in an
+             * allowed group.
+             */
+            deniedGroups?: string[];
+            /**
+             * Whether nested group memberships are matched as well, which
+             * requires groups.expansion.
+             * @default false
+             */
+            nested?: boolean;
+          };
+          /**
+           * Maps LDAP groups to entity refs that are added to the ownership
+           * claims of the issued token, so that group ownership applies
+           * before the catalog has ingested the membership. Each group uses
+           * the first matching entry.
+           */
+          groupMapping?: Array<{
+            /**
+             * Case-insensitive pattern matched anywhere in the group DN,
+             * e.g. `cn=(.*),ou=groups`.
+             */
+            dn?: string;
+            /**
+             * Case-insensitive pattern matched against the whole CN of the
+             * group, e.g. `team-(.*)`.
+             */
+            cn?: string;
+            /**
+             * Entity ref in which `$1` to `$9` are replaced with the groups
+             * captured by the pattern, e.g. `group:default/$1`.
+             */
+            entityRef: string;
+          }>;
+          /**
+           * Lets users whose password has expired or must be changed choose
+           * a new one on sign-in. The directory has to be reached over
+           * ldaps:// or with tls.startTls, and the service account must be
+           * allowed to change passwords, since users with an expired password
+           * can't bind.
+           */
+          passwordChange?: {
+            /**
+             * Whether users can change an expired password on sign-in.
+             * @default false
+             */
+            enabled?: boolean;
+            /**
+             * `passwordModify` uses the RFC 3062 Password Modify extended
+             * operation, e.g. for OpenLDAP. `unicodePwd` modifies the
+             * unicodePwd attribute of Active Directory.
+             * @default passwordModify
+             */
+            method?: 'passwordModify' | 'unicodePwd';
+          };
+          /**
+           * Checks refusing accounts that are disabled, locked or expired in
+           * the directory, for directories that still accept their binds.
+           * They run after the password was accepted and whenever a session
+           * is refreshed, and are configured per directory.
+           */
+          accountStatus?: {
+            /**
+             * Names of the checks to run. `activeDirectory` checks the
+             * ACCOUNTDISABLE flag of userAccountControl and accountExpires,
+             * `ppolicy` the administrative lock of pwdAccountLockedTime,
+             * `nsAccountLock` the FreeIPA and 389 Directory Server lock, and
+             * `shadowExpire` the expiry day of shadowAccount entries. Further
+             * checks can be registered through the LDAP auth extension point.
+             * @default ['activeDirectory', 'ppolicy', 'nsAccountLock', 'shadowExpire']
+             */
+            checks?: string[];
+            /**
+             * Filter that the entries of enabled accounts match, such as
+             * `(!(employeeStatus=terminated))`. Accounts whose entry doesn't
+             * match are refused as disabled.
+             */
+            filter?: string;
           };
           /**
            * Sign-in resolver configuration.
@@ -73,6 +519,19 @@ export interface Config {
           signIn?: {
             resolvers: Array<{
               resolver: string;
+              /**
+               * Required by the usernameWithoutCatalogUser resolver, which
+               * signs in users that have no User entity in the catalog.
+               */
+              dangerouslyAllowSignInWithoutUserInCatalog?: boolean;
+              /**
+               * Namespace of the user and group entity refs issued by the
+               * usernameWithoutCatalogUser resolver, in which `{{directory}}`
+               * is replaced with the name of the directory the user signed in
+               * to.
+               * @default default
+               */
+              namespace?: string;
             }>;
           };
         };
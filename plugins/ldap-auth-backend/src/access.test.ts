@@ -0,0 +1,117 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import {
+  groupName,
+  isLdapAccessAllowed,
+  matchesGroup,
+  readLdapAccessConfig,
+} from './access';
+
+const devs = 'cn=devs,ou=groups,dc=example,dc=org';
+const contractors = 'cn=contractors,ou=groups,dc=example,dc=org';
+const engineering = 'cn=engineering,ou=groups,dc=example,dc=org';
+
+const userInfo = {
+  dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+  uid: 'jdoe',
+  memberOf: [devs],
+  groups: [devs, engineering],
+  attributes: {},
+};
+
+describe('isLdapAccessAllowed', () => {
+  it('should allow everyone without rules', () => {
+    expect(
+      isLdapAccessAllowed(userInfo, {
+        allowedGroups: [],
+        deniedGroups: [],
+        nested: false,
+      }),
+    ).toBe(true);
+  });
+
+  it('should require membership of an allowed group', () => {
+    const access = { deniedGroups: [], nested: false };
+    expect(
+      isLdapAccessAllowed(userInfo, { ...access, allowedGroups: ['devs'] }),
+    ).toBe(true);
+    expect(
+      isLdapAccessAllowed(userInfo, {
+        ...access,
+        allowedGroups: [engineering],
+      }),
+    ).toBe(false);
+  });
+
+  it('should match nested memberships if enabled', () => {
+    expect(
+      isLdapAccessAllowed(userInfo, {
+        allowedGroups: ['engineering'],
+        deniedGroups: [],
+        nested: true,
+      }),
+    ).toBe(true);
+  });
+
+  it('should reject members of denied groups', () => {
+    expect(
+      isLdapAccessAllowed(
+        { ...userInfo, memberOf: [devs, contractors] },
+        { allowedGroups: ['devs'], deniedGroups: [contractors], nested: false },
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('matchesGroup', () => {
+  it('should compare DNs ignoring case and spacing', () => {
+    expect(matchesGroup(devs, 'CN=Devs, OU=Groups, DC=example, DC=org')).toBe(
+      true,
+    );
+    expect(matchesGroup(devs, 'cn=devs,ou=other,dc=example,dc=org')).toBe(
+      false,
+    );
+  });
+
+  it('should compare CNs with the first RDN', () => {
+    expect(matchesGroup(devs, 'Devs')).toBe(true);
+    expect(matchesGroup('devs', 'devs')).toBe(true);
+    expect(matchesGroup(devs, 'groups')).toBe(false);
+  });
+});
+
+describe('groupName', () => {
+  it('should return the first RDN value', () => {
+    expect(groupName(devs)).toBe('devs');
+    expect(groupName('cn=R\\, D,ou=groups')).toBe('R\\, D');
+    expect(groupName('devs')).toBe('devs');
+  });
+});
+
+describe('readLdapAccessConfig', () => {
+  it('should require group expansion for nested rules', () => {
+    expect(() =>
+      readLdapAccessConfig(
+        new ConfigReader({ access: { allowedGroups: ['devs'], nested: true } }),
+      ),
+    ).toThrow(
+      'LDAP access.nested is set but groups.expansion is not configured',
+    );
+  });
+});
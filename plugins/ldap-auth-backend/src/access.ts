@@ -0,0 +1,113 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import type { LdapUserInfo } from './types';
+
+/**
+ * Group based rules for who may sign in.
+ *
+ * @internal
+ */
+export interface LdapAccessConfig {
+  /** Groups of which users must be a member of at least one, if any */
+  allowedGroups: string[];
+  /** Groups whose members are rejected, even if they are in an allowed group */
+  deniedGroups: string[];
+  /** Whether nested group memberships are matched as well */
+  nested: boolean;
+}
+
+/**
+ * Reads the `access` block of an LDAP environment config.
+ *
+ * @internal
+ */
+export function readLdapAccessConfig(config: Config): LdapAccessConfig {
+  const access = {
+    allowedGroups: config.getOptionalStringArray('access.allowedGroups') ?? [],
+    deniedGroups: config.getOptionalStringArray('access.deniedGroups') ?? [],
+    nested: config.getOptionalBoolean('access.nested') ?? false,
+  };
+
+  const directories = config.getOptionalConfigArray('directories') ?? [config];
+  if (
+    access.nested &&
+    directories.some(
+      directory =>
+        (directory.getOptionalString('groups.expansion') ?? 'none') === 'none',
+    )
+  ) {
+    throw new Error(
+      'LDAP access.nested is set but groups.expansion is not configured',
+    );
+  }
+
+  return access;
+}
+
+/**
+ * Whether the groups of a user allow them to sign in. Groups in the rules
+ * can be given as DNs or as CNs, which match the first RDN of a group DN.
+ *
+ * @internal
+ */
+export function isLdapAccessAllowed(
+  userInfo: LdapUserInfo,
+  access: LdapAccessConfig,
+): boolean {
+  const groups =
+    (access.nested ? userInfo.groups : undefined) ?? userInfo.memberOf ?? [];
+  const isMember = (rules: string[]) =>
+    rules.some(rule => groups.some(group => matchesGroup(group, rule)));
+
+  if (isMember(access.deniedGroups)) {
+    return false;
+  }
+  return access.allowedGroups.length === 0 || isMember(access.allowedGroups);
+}
+
+/**
+ * Whether a group of the user, a DN or CN, matches a DN or CN of a rule.
+ * DNs are compared ignoring case and the spacing around separators.
+ *
+ * @internal
+ */
+export function matchesGroup(group: string, rule: string): boolean {
+  if (rule.includes('=')) {
+    return normalizeDN(group) === normalizeDN(rule);
+  }
+  return groupName(group).toLowerCase() === rule.trim().toLowerCase();
+}
+
+/**
+ * The CN of a group, i.e. the value of the first RDN of a DN, or the group
+ * itself if it isn't a DN.
+ *
+ * @internal
+ */
+export function groupName(group: string): string {
+  const match = group.match(/^\s*[^=,]+=\s*((?:\\.|[^,\\])*)/);
+  return match ? match[1].trim() : group.trim();
+}
+
+function normalizeDN(dn: string): string {
+  return dn
+    .split(/(?<!\\),/)
+    .map(rdn => rdn.replace(/\s*=\s*/, '=').trim())
+    .join(',')
+    .toLowerCase();
+}
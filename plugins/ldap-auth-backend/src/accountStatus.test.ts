@@ -0,0 +1,156 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import {
+  checkLdapAccountStatus,
+  ldapAccountStatusCheckers,
+  readLdapAccountStatusConfig,
+} from './accountStatus';
+
+const { activeDirectory, ppolicy, nsAccountLock, shadowExpire } =
+  ldapAccountStatusCheckers;
+const dn = 'uid=jdoe,ou=users,dc=example,dc=org';
+
+/** Converts a time to an Active Directory file time */
+function toFileTime(time: number) {
+  return String((time + 11644473600000) * 10000);
+}
+
+describe('ldapAccountStatusCheckers', () => {
+  it('should check the Active Directory account flags and expiry', () => {
+    expect(activeDirectory.check({ dn, userAccountControl: '512' })).toBe(
+      undefined,
+    );
+    expect(activeDirectory.check({ dn, userAccountControl: '514' })).toBe(
+      'accountDisabled',
+    );
+    expect(
+      activeDirectory.check({
+        dn,
+        accountExpires: toFileTime(Date.now() - 60000),
+      }),
+    ).toBe('accountExpired');
+    expect(
+      activeDirectory.check({
+        dn,
+        accountExpires: toFileTime(Date.now() + 60000),
+      }),
+    ).toBe(undefined);
+    expect(activeDirectory.check({ dn, accountExpires: '0' })).toBe(undefined);
+    expect(
+      activeDirectory.check({ dn, accountExpires: '9223372036854775807' }),
+    ).toBe(undefined);
+  });
+
+  it('should check the password policy lock', () => {
+    expect(ppolicy.check({ dn })).toBe(undefined);
+    expect(ppolicy.check({ dn, pwdAccountLockedTime: '000001010000Z' })).toBe(
+      'accountLocked',
+    );
+  });
+
+  it('should ignore lockouts after failed binds, which the server enforces', () => {
+    expect(ppolicy.check({ dn, pwdAccountLockedTime: '20240101000000Z' })).toBe(
+      undefined,
+    );
+  });
+
+  it('should check nsAccountLock regardless of the attribute name case', () => {
+    expect(nsAccountLock.check({ dn, nsaccountlock: 'TRUE' })).toBe(
+      'accountDisabled',
+    );
+    expect(nsAccountLock.check({ dn, nsAccountLock: 'false' })).toBe(undefined);
+  });
+
+  it('should check the shadowExpire day', () => {
+    const today = Math.floor(Date.now() / 86400000);
+
+    expect(shadowExpire.check({ dn, shadowExpire: String(today) })).toBe(
+      'accountExpired',
+    );
+    expect(shadowExpire.check({ dn, shadowExpire: '0' })).toBe(
+      'accountExpired',
+    );
+    expect(shadowExpire.check({ dn, shadowExpire: String(today + 1) })).toBe(
+      undefined,
+    );
+    expect(shadowExpire.check({ dn, shadowExpire: '-1' })).toBe(undefined);
+  });
+});
+
+describe('readLdapAccountStatusConfig', () => {
+  const employeeStatus = {
+    attributes: ['employeeStatus'],
+    check: () => 'accountDisabled' as const,
+  };
+
+  it('should enable the built-in checks by default', () => {
+    expect(
+      readLdapAccountStatusConfig(
+        new ConfigReader({}),
+        ldapAccountStatusCheckers,
+      ),
+    ).toEqual({
+      checkers: [activeDirectory, ppolicy, nsAccountLock, shadowExpire],
+      filter: undefined,
+    });
+  });
+
+  it('should read the selected checks and the filter', () => {
+    expect(
+      readLdapAccountStatusConfig(
+        new ConfigReader({
+          accountStatus: {
+            checks: ['employeeStatus', 'ppolicy'],
+            filter: '(!(employeeStatus=terminated))',
+          },
+        }),
+        { ...ldapAccountStatusCheckers, employeeStatus },
+      ),
+    ).toEqual({
+      checkers: [employeeStatus, ppolicy],
+      filter: '(!(employeeStatus=terminated))',
+    });
+  });
+
+  it('should reject unknown checks', () => {
+    expect(() =>
+      readLdapAccountStatusConfig(
+        new ConfigReader({ accountStatus: { checks: ['nis'] } }),
+        ldapAccountStatusCheckers,
+      ),
+    ).toThrow(
+      "Unknown LDAP account status check 'nis', must be one of 'activeDirectory', 'ppolicy', 'nsAccountLock', 'shadowExpire'",
+    );
+  });
+});
+
+describe('checkLdapAccountStatus', () => {
+  it('should return the reason of the first check refusing the account', () => {
+    const entry = {
+      dn,
+      userAccountControl: '514',
+      pwdAccountLockedTime: '000001010000Z',
+    };
+
+    expect(checkLdapAccountStatus(entry, [ppolicy, activeDirectory])).toBe(
+      'accountLocked',
+    );
+    expect(checkLdapAccountStatus(entry, [nsAccountLock])).toBe(undefined);
+  });
+});
@@ -0,0 +1,171 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import { extractStringAttribute } from './attributes';
+import type {
+  LdapAccountStatus,
+  LdapAccountStatusChecker,
+  LdapEntry,
+} from './types';
+
+/** Milliseconds between 1601-01-01, the epoch of Windows file times, and 1970-01-01 */
+const FILETIME_EPOCH_OFFSET = 11644473600000;
+
+/** Active Directory accountExpires values meaning that the account never expires */
+const NEVER_EXPIRES = ['0', '9223372036854775807'];
+
+/**
+ * Reads an attribute of the entry regardless of the case the server returns
+ * its name in.
+ */
+function readAttribute(entry: LdapEntry, attribute: string) {
+  const key = Object.keys(entry).find(
+    k => k.toLowerCase() === attribute.toLowerCase(),
+  );
+  return key ? extractStringAttribute(entry, key) : undefined;
+}
+
+/**
+ * Refuses Active Directory accounts with the ACCOUNTDISABLE flag of
+ * userAccountControl, or whose accountExpires time has passed.
+ */
+const activeDirectory: LdapAccountStatusChecker = {
+  attributes: ['userAccountControl', 'accountExpires'],
+  check(entry) {
+    if (Number(readAttribute(entry, 'userAccountControl')) & 0x2) {
+      return 'accountDisabled';
+    }
+    const accountExpires = readAttribute(entry, 'accountExpires');
+    if (
+      accountExpires &&
+      !NEVER_EXPIRES.includes(accountExpires) &&
+      Number(accountExpires) / 10000 - FILETIME_EPOCH_OFFSET <= Date.now()
+    ) {
+      return 'accountExpired';
+    }
+    return undefined;
+  },
+};
+
+/**
+ * pwdAccountLockedTime value with which an administrator locks an account of
+ * the password policy overlay until it is unlocked again.
+ */
+const PERMANENTLY_LOCKED = '000001010000Z';
+
+/**
+ * Refuses accounts locked by an administrator in the password policy overlay
+ * of OpenLDAP and other draft-behera directories. Any other
+ * pwdAccountLockedTime is a lockout after failed binds, which ends after the
+ * pwdLockoutDuration of the policy. While it lasts the server refuses the
+ * bind itself, and the attribute may remain after it ended.
+ */
+const ppolicy: LdapAccountStatusChecker = {
+  attributes: ['pwdAccountLockedTime'],
+  check(entry) {
+    return readAttribute(entry, 'pwdAccountLockedTime') === PERMANENTLY_LOCKED
+      ? 'accountLocked'
+      : undefined;
+  },
+};
+
+/**
+ * Refuses accounts disabled in FreeIPA or 389 Directory Server.
+ */
+const nsAccountLock: LdapAccountStatusChecker = {
+  attributes: ['nsAccountLock'],
+  check(entry) {
+    return readAttribute(entry, 'nsAccountLock')?.toLowerCase() === 'true'
+      ? 'accountDisabled'
+      : undefined;
+  },
+};
+
+/**
+ * Refuses shadowAccount entries whose shadowExpire day has come, which is
+ * also how `usermod --expiredate 1` locks an account.
+ */
+const shadowExpire: LdapAccountStatusChecker = {
+  attributes: ['shadowExpire'],
+  check(entry) {
+    const value = readAttribute(entry, 'shadowExpire');
+    const days = value ? Number(value) : NaN;
+    return days >= 0 && days * 86400000 <= Date.now()
+      ? 'accountExpired'
+      : undefined;
+  },
+};
+
+/**
+ * The built-in account status checks, by the name they are referenced by
+ * in the `accountStatus.checks` config. All of them are enabled by default.
+ *
+ * @public
+ */
+export const ldapAccountStatusCheckers: {
+  [name in string]: LdapAccountStatusChecker;
+} = { activeDirectory, ppolicy, nsAccountLock, shadowExpire };
+
+/**
+ * Reads the `accountStatus` block of a directory config.
+ *
+ * @internal
+ */
+export function readLdapAccountStatusConfig(
+  config: Config,
+  checkers: { [name in string]: LdapAccountStatusChecker },
+): { checkers: LdapAccountStatusChecker[]; filter?: string } {
+  const names =
+    config.getOptionalStringArray('accountStatus.checks') ??
+    Object.keys(ldapAccountStatusCheckers);
+
+  return {
+    checkers: names.map(name => {
+      const checker = checkers[name];
+      if (!checker) {
+        throw new Error(
+          `Unknown LDAP account status check '${name}', must be one of ${Object.keys(
+            checkers,
+          )
+            .map(n => `'${n}'`)
+            .join(', ')}`,
+        );
+      }
+      return checker;
+    }),
+    filter: config.getOptionalString('accountStatus.filter'),
+  };
+}
+
+/**
+ * Runs the account status checks on the entry of a user, and returns the
+ * first reason the account can't sign in.
+ *
+ * @internal
+ */
+export function checkLdapAccountStatus(
+  entry: LdapEntry,
+  checkers: LdapAccountStatusChecker[],
+): LdapAccountStatus | undefined {
+  for (const checker of checkers) {
+    const status = checker.check(entry);
+    if (status) {
+      return status;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,217 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { jest, describe, it, expect } from '@jest/globals';
+import {
+  extractAllAttributes,
+  extractMappedAttribute,
+  extractPicture,
+  getUserSearchAttributes,
+} from './attributes';
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn<any>().mockReturnThis(),
+} as any;
+
+const entry = {
+  dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+  uid: 'jdoe',
+  givenName: 'John',
+  sn: ['Doe', 'Smith'],
+  mail: 'jdoe@example.com',
+};
+
+describe('extractMappedAttribute', () => {
+  it('should read the first value of an attribute', () => {
+    expect(extractMappedAttribute(entry, 'sn')).toBe('Doe');
+    expect(extractMappedAttribute(entry, 'cn')).toBeUndefined();
+  });
+
+  it('should render templates from the attributes of the entry', () => {
+    expect(extractMappedAttribute(entry, '{{givenName}} {{ sn }}')).toBe(
+      'John Doe',
+    );
+    expect(extractMappedAttribute(entry, '{{givenName}} {{initials}}')).toBe(
+      'John',
+    );
+    expect(
+      extractMappedAttribute(entry, '{{cn}} {{initials}}'),
+    ).toBeUndefined();
+  });
+});
+
+describe('extractPicture', () => {
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]);
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d]);
+
+  it('should return binary photos as data URLs', () => {
+    expect(
+      extractPicture(
+        { ...entry, jpegPhoto: [jpeg] },
+        'jpegPhoto',
+        100,
+        mockLogger,
+      ),
+    ).toBe(`data:image/jpeg;base64,${jpeg.toString('base64')}`);
+    expect(
+      extractPicture(
+        { ...entry, thumbnailPhoto: png },
+        'thumbnailPhoto',
+        100,
+        mockLogger,
+      ),
+    ).toBe(`data:image/png;base64,${png.toString('base64')}`);
+  });
+
+  it('should skip photos larger than the limit', () => {
+    expect(
+      extractPicture({ ...entry, jpegPhoto: jpeg }, 'jpegPhoto', 4, mockLogger),
+    ).toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('exceed the limit of 4 bytes'),
+    );
+  });
+
+  it('should pass picture URLs through', () => {
+    const picture = 'https://example.org/jdoe.png';
+    expect(
+      extractPicture(
+        { ...entry, labeledURI: picture },
+        'labeledURI',
+        100,
+        mockLogger,
+      ),
+    ).toBe(picture);
+    expect(
+      extractPicture(
+        { ...entry, labeledURI: [Buffer.from(`${picture} Photo`)] },
+        'labeledURI',
+        100,
+        mockLogger,
+      ),
+    ).toBe(picture);
+    expect(
+      extractPicture(
+        { ...entry, labeledURI: 'jdoe' },
+        'labeledURI',
+        100,
+        mockLogger,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('getUserSearchAttributes', () => {
+  it('should request the mapped attributes and the photo as a buffer', () => {
+    const config: Parameters<typeof getUserSearchAttributes>[0] = {
+      usernameAttribute: 'uid',
+      userAttributes: ['mail', 'memberOf'],
+      binaryAttributes: { objectSid: 'sid' },
+      attributeMap: {
+        uid: 'uid',
+        displayName: '{{givenName}} {{sn}}',
+        email: 'mail',
+        picture: 'thumbnailPhoto',
+        pictureMaxSize: 102400,
+      },
+      accountStatus: {
+        checkers: [
+          { attributes: ['userAccountControl'], check: () => undefined },
+        ],
+      },
+    };
+
+    expect(getUserSearchAttributes(config)).toEqual({
+      attributes: [
+        'uid',
+        'mail',
+        'memberOf',
+        'entryUUID',
+        'objectGUID',
+        'ipaUniqueID',
+        'userAccountControl',
+        'givenName',
+        'sn',
+        'thumbnailPhoto',
+        'objectSid',
+      ],
+      explicitBufferAttributes: ['objectGUID', 'thumbnailPhoto', 'objectSid'],
+    });
+  });
+});
+
+describe('extractAllAttributes', () => {
+  const guid = Buffer.from('33221100554477668899aabbccddeeff', 'hex');
+  const sid = Buffer.from(
+    '010500000000000515000000dcf4dc3b833d2b46828ba62800020000',
+    'hex',
+  );
+  const certificate = Buffer.from([0x30, 0x82, 0x01]);
+
+  it('should leave out binary values without an encoding', () => {
+    expect(
+      extractAllAttributes({ ...entry, objectGUID: guid }, [
+        'mail',
+        'sn',
+        'objectGUID',
+      ]),
+    ).toEqual({ mail: 'jdoe@example.com', sn: ['Doe', 'Smith'] });
+  });
+
+  it('should encode binary values as configured', () => {
+    expect(
+      extractAllAttributes(
+        {
+          ...entry,
+          objectGUID: guid,
+          objectSid: sid,
+          thumbnailPhoto: certificate,
+          userCertificate: [certificate, certificate],
+          photo: certificate,
+        },
+        ['mail'],
+        {
+          objectGUID: 'guid',
+          objectSid: 'sid',
+          thumbnailPhoto: 'base64',
+          userCertificate: 'hex',
+          photo: 'buffer',
+        },
+      ),
+    ).toEqual({
+      mail: 'jdoe@example.com',
+      objectGUID: '00112233-4455-6677-8899-aabbccddeeff',
+      objectSid: 'S-1-5-21-1004336348-1177238915-682003330-512',
+      thumbnailPhoto: 'MIIB',
+      userCertificate: ['308201', '308201'],
+      photo: certificate,
+    });
+  });
+
+  it('should leave out malformed GUIDs and SIDs', () => {
+    expect(
+      extractAllAttributes(
+        { ...entry, objectGUID: certificate, objectSid: certificate },
+        [],
+        { objectGUID: 'guid', objectSid: 'sid' },
+      ),
+    ).toEqual({ objectGUID: undefined, objectSid: undefined });
+  });
+});
@@ -0,0 +1,307 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { LdapBinaryEncoding, LdapClientConfig } from './types';
+
+/** Attributes holding the immutable id of a user, in order of preference */
+const UUID_ATTRIBUTES = ['entryUUID', 'objectGUID', 'ipaUniqueID'];
+
+/** @internal */
+export const BINARY_ENCODINGS: LdapBinaryEncoding[] = [
+  'base64',
+  'hex',
+  'guid',
+  'sid',
+  'buffer',
+];
+
+const URL_PATTERN = /^https?:\/\//;
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w;-]+)\s*\}\}/g;
+
+/**
+ * The attributes to request in the user search, and which of them are
+ * binary and have to be requested as buffers.
+ *
+ * @internal
+ */
+export function getUserSearchAttributes(
+  config: Pick<
+    LdapClientConfig,
+    | 'usernameAttribute'
+    | 'userAttributes'
+    | 'binaryAttributes'
+    | 'attributeMap'
+    | 'accountStatus'
+  >,
+): {
+  attributes: string[];
+  explicitBufferAttributes: string[];
+} {
+  const { attributeMap } = config;
+  const mapped = [
+    attributeMap.uid,
+    attributeMap.displayName,
+    attributeMap.email,
+  ].flatMap(mapping =>
+    isTemplate(mapping)
+      ? Array.from(mapping.matchAll(TEMPLATE_PATTERN), match => match[1])
+      : [mapping],
+  );
+  const explicitBufferAttributes = Array.from(
+    new Set([
+      'objectGUID',
+      ...(attributeMap.picture ? [attributeMap.picture] : []),
+      ...Object.keys(config.binaryAttributes),
+    ]),
+  );
+
+  return {
+    attributes: Array.from(
+      new Set([
+        config.usernameAttribute,
+        ...config.userAttributes,
+        ...UUID_ATTRIBUTES,
+        ...config.accountStatus.checkers.flatMap(c => c.attributes),
+        ...mapped,
+        ...explicitBufferAttributes,
+      ]),
+    ),
+    explicitBufferAttributes,
+  };
+}
+
+/**
+ * Reads a profile field mapped by the `attributeMap` config, which is either
+ * an attribute name or a template such as `{{givenName}} {{sn}}`.
+ *
+ * @internal
+ */
+export function extractMappedAttribute(
+  entry: Record<string, unknown>,
+  mapping: string,
+): string | undefined {
+  if (!isTemplate(mapping)) {
+    return extractStringAttribute(entry, mapping);
+  }
+  const value = mapping
+    .replace(
+      TEMPLATE_PATTERN,
+      (_, attribute) => extractStringAttribute(entry, attribute) ?? '',
+    )
+    .replace(/\s+/g, ' ')
+    .trim();
+  return value || undefined;
+}
+
+/**
+ * Reads a picture from a binary photo attribute such as jpegPhoto or
+ * thumbnailPhoto as a data URL, or from an attribute such as labeledURI
+ * holding a URL, optionally followed by a label.
+ * Photos larger than `maxSize` bytes are skipped, since the picture ends
+ * up in every sign-in response.
+ *
+ * @internal
+ */
+export function extractPicture(
+  entry: Record<string, unknown>,
+  attribute: string,
+  maxSize: number,
+  logger: LoggerService,
+): string | undefined {
+  const value = entry[attribute];
+  const first = Array.isArray(value) ? value[0] : value;
+
+  // The picture attribute is requested as a buffer, so a URL arrives as a
+  // buffer too
+  const text = Buffer.isBuffer(first) ? first.toString('latin1', 0, 8) : first;
+  if (typeof text === 'string' && URL_PATTERN.test(text)) {
+    return String(first).split(/\s/)[0];
+  }
+  if (!Buffer.isBuffer(first) || first.length === 0) {
+    return undefined;
+  }
+  if (first.length > maxSize) {
+    logger.warn(
+      `Skipping the ${attribute} of ${entry.dn}, its ${first.length} bytes exceed the limit of ${maxSize} bytes`,
+    );
+    return undefined;
+  }
+
+  const mimeType =
+    first[0] === 0x89 && first.toString('ascii', 1, 4) === 'PNG'
+      ? 'image/png'
+      : 'image/jpeg';
+  return `data:${mimeType};base64,${first.toString('base64')}`;
+}
+
+function isTemplate(mapping: string): boolean {
+  return mapping.includes('{{');
+}
+
+/**
+ * Reads the first string value of an attribute.
+ *
+ * @internal
+ */
+export function extractStringAttribute(
+  entry: Record<string, unknown>,
+  attribute: string,
+): string | undefined {
+  const value = entry[attribute];
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (Array.isArray(value) && typeof value[0] === 'string') {
+    return value[0];
+  }
+  return undefined;
+}
+
+/**
+ * Reads the immutable id of a user from the OpenLDAP entryUUID, the Active
+ * Directory objectGUID or the FreeIPA ipaUniqueID attribute.
+ *
+ * @internal
+ */
+export function extractUuid(
+  entry: Record<string, unknown>,
+): string | undefined {
+  for (const attribute of UUID_ATTRIBUTES) {
+    const value = entry[attribute];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (Buffer.isBuffer(first) && first.length === 16) {
+      return formatGuid(first);
+    }
+    if (typeof first === 'string' && first) {
+      return first.toLowerCase();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a binary GUID in its canonical string form, in which the first
+ * three groups are stored little-endian.
+ */
+function formatGuid(guid: Buffer): string {
+  const hex = (bytes: number[]) =>
+    bytes.map(i => guid[i].toString(16).padStart(2, '0')).join('');
+  return [
+    hex([3, 2, 1, 0]),
+    hex([5, 4]),
+    hex([7, 6]),
+    hex([8, 9]),
+    hex([10, 11, 12, 13, 14, 15]),
+  ].join('-');
+}
+
+/**
+ * Reads all string values of an attribute.
+ *
+ * @internal
+ */
+export function extractStringArrayAttribute(
+  entry: Record<string, unknown>,
+  attribute: string,
+): string[] | undefined {
+  const value = entry[attribute];
+  if (Array.isArray(value)) {
+    return value.filter((v): v is string => typeof v === 'string');
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  return undefined;
+}
+
+/**
+ * Reads the values of the given attributes. String values are returned as
+ * is, the values of binary attributes in their configured encoding, and any
+ * other values are left out.
+ *
+ * @internal
+ */
+export function extractAllAttributes(
+  entry: Record<string, unknown>,
+  attributes: string[],
+  binaryAttributes: Record<string, LdapBinaryEncoding> = {},
+): Record<string, string | string[] | Buffer | Buffer[] | undefined> {
+  const result: Record<
+    string,
+    string | string[] | Buffer | Buffer[] | undefined
+  > = {};
+  for (const attr of new Set([
+    ...attributes,
+    ...Object.keys(binaryAttributes),
+  ])) {
+    const value = entry[attr];
+    const encoding = binaryAttributes[attr];
+    if (encoding) {
+      const values = (Array.isArray(value) ? value : [value]).filter(
+        (v): v is Buffer => Buffer.isBuffer(v),
+      );
+      if (encoding === 'buffer') {
+        result[attr] = Array.isArray(value) ? values : values[0];
+      } else {
+        const encoded = values
+          .map(v => encodeBinaryValue(v, encoding))
+          .filter((v): v is string => v !== undefined);
+        result[attr] = Array.isArray(value) ? encoded : encoded[0];
+      }
+    } else if (typeof value === 'string') {
+      result[attr] = value;
+    } else if (Array.isArray(value)) {
+      result[attr] = value.filter((v): v is string => typeof v === 'string');
+    }
+  }
+  return result;
+}
+
+function encodeBinaryValue(
+  value: Buffer,
+  encoding: Exclude<LdapBinaryEncoding, 'buffer'>,
+): string | undefined {
+  switch (encoding) {
+    case 'base64':
+      return value.toString('base64');
+    case 'hex':
+      return value.toString('hex');
+    case 'guid':
+      return value.length === 16 ? formatGuid(value) : undefined;
+    case 'sid':
+      return formatSid(value);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Formats a binary Windows security identifier in its string form, e.g.
+ * S-1-5-21-1004336348-1177238915-682003330-512. The identifier authority is
+ * stored big-endian and the sub-authorities little-endian.
+ */
+function formatSid(sid: Buffer): string | undefined {
+  if (sid.length < 8 || sid.length !== 8 + sid[1] * 4) {
+    return undefined;
+  }
+  const authority = sid.readUIntBE(2, 6);
+  const subAuthorities = Array.from({ length: sid[1] }, (_, i) =>
+    sid.readUInt32LE(8 + i * 4),
+  );
+  return ['S', sid[0], authority, ...subAuthorities].join('-');
+}
@@ -0,0 +1,231 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  jest,
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import { LdapConnectionPool } from './connectionPool';
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn<any>().mockReturnThis(),
+} as any;
+
+function createMockClient() {
+  return {
+    bind: jest.fn<(...args: any[]) => any>().mockResolvedValue(undefined),
+    unbind: jest.fn<(...args: any[]) => any>().mockResolvedValue(undefined),
+    search: jest
+      .fn<(...args: any[]) => any>()
+      .mockResolvedValue({ searchEntries: [] }),
+    isConnected: true,
+  };
+}
+
+class ResultCodeError extends Error {
+  code = 32;
+}
+
+describe('LdapConnectionPool', () => {
+  let clients: ReturnType<typeof createMockClient>[];
+  let pool: LdapConnectionPool;
+
+  function createPool(
+    overrides: Partial<
+      ConstructorParameters<typeof LdapConnectionPool>[0]
+    > = {},
+  ) {
+    return new LdapConnectionPool({
+      createConnection: async () => {
+        const client = createMockClient();
+        clients.push(client);
+        return client as any;
+      },
+      maxSize: 2,
+      idleTimeout: 300000,
+      keepAliveInterval: 60000,
+      logger: mockLogger,
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    clients = [];
+    pool = createPool();
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    jest.useRealTimers();
+  });
+
+  it('should reuse a connection for sequential operations', async () => {
+    await pool.use(client => client.search('ou=users', {}));
+    await pool.use(client => client.search('ou=users', {}));
+
+    expect(clients).toHaveLength(1);
+    expect(clients[0].search).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not open more than maxSize connections', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const operations = [1, 2, 3].map(() => pool.use(() => blocked));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(clients).toHaveLength(2);
+
+    release();
+    await Promise.all(operations);
+    expect(clients).toHaveLength(2);
+  });
+
+  it('should replace a connection that was dropped by the server', async () => {
+    await pool.use(async () => {});
+    clients[0].isConnected = false;
+
+    await pool.use(async () => {});
+
+    expect(clients).toHaveLength(2);
+    expect(clients[0].unbind).toHaveBeenCalled();
+  });
+
+  it('should not pool a connection that failed to open', async () => {
+    pool = createPool({
+      createConnection: async () => {
+        throw new Error('connect ECONNREFUSED');
+      },
+    });
+
+    await expect(pool.use(async () => {})).rejects.toThrow('ECONNREFUSED');
+    await expect(pool.use(async () => {})).rejects.toThrow('ECONNREFUSED');
+  });
+
+  it('should retry on a new connection after a connection error', async () => {
+    await pool.use(async () => {});
+
+    const result = await pool.use(async client => {
+      if (client === (clients[0] as any)) {
+        throw new Error(
+          'Connection closed before message response was received. Message type: SearchRequest (0x63)',
+        );
+      }
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(clients).toHaveLength(2);
+    expect(clients[0].unbind).toHaveBeenCalled();
+  });
+
+  it('should keep the connection after an LDAP result error', async () => {
+    await expect(
+      pool.use(async () => {
+        throw new ResultCodeError('No such object');
+      }),
+    ).rejects.toThrow('No such object');
+
+    await pool.use(async () => {});
+
+    expect(clients).toHaveLength(1);
+    expect(clients[0].unbind).not.toHaveBeenCalled();
+  });
+
+  it('should keep the connection after an invalid search filter', async () => {
+    await expect(
+      pool.use(async () => {
+        throw new Error('Unbalanced parens in filter string: (uid=jdoe');
+      }),
+    ).rejects.toThrow('Unbalanced parens');
+
+    await pool.use(async () => {});
+
+    expect(clients).toHaveLength(1);
+    expect(clients[0].unbind).not.toHaveBeenCalled();
+  });
+
+  it('should close idle connections after the idle timeout', async () => {
+    await pool.use(async () => {});
+
+    await jest.advanceTimersByTimeAsync(300000);
+
+    expect(clients[0].unbind).toHaveBeenCalled();
+
+    await pool.use(async () => {});
+    expect(clients).toHaveLength(2);
+  });
+
+  it('should probe idle connections and drop the ones that fail', async () => {
+    await pool.use(async () => {});
+    clients[0].search.mockRejectedValueOnce(new Error('read ECONNRESET'));
+
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(clients[0].search).toHaveBeenCalledWith(
+      '',
+      expect.objectContaining({ scope: 'base' }),
+    );
+    expect(clients[0].unbind).toHaveBeenCalled();
+  });
+
+  it('should close connections in use once the pool was closed', async () => {
+    let finish!: () => void;
+    const operation = pool.use(
+      () =>
+        new Promise<void>(resolve => {
+          finish = resolve;
+        }),
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    await pool.close();
+    expect(clients[0].unbind).not.toHaveBeenCalled();
+    finish();
+    await operation;
+
+    expect(clients[0].unbind).toHaveBeenCalled();
+  });
+
+  it('should hand a probed connection to callers that queued during the probe', async () => {
+    pool = createPool({ maxSize: 1 });
+    await pool.use(async () => {});
+    let finishProbe!: () => void;
+    clients[0].search.mockReturnValueOnce(
+      new Promise(resolve => {
+        finishProbe = () => resolve({ searchEntries: [] });
+      }),
+    );
+
+    await jest.advanceTimersByTimeAsync(60000);
+    const operation = pool.use(async () => 'ok');
+    await jest.advanceTimersByTimeAsync(0);
+    finishProbe();
+
+    await expect(operation).resolves.toBe('ok');
+    expect(clients).toHaveLength(1);
+  });
+});
@@ -0,0 +1,233 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Client } from 'ldapts';
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import { isConnectionError } from './errors';
+
+/**
+ * Options for creating an {@link LdapConnectionPool}.
+ *
+ * @internal
+ */
+export interface LdapConnectionPoolOptions {
+  /** Opens a new connection, bound as the service account if configured */
+  createConnection: () => Promise<Client>;
+  /** Maximum number of open connections */
+  maxSize: number;
+  /** Milliseconds after which an unused connection is closed */
+  idleTimeout: number;
+  /** Milliseconds between keep-alive probes of idle connections, 0 to disable */
+  keepAliveInterval: number;
+  logger: LoggerService;
+}
+
+interface PooledConnection {
+  client: Client;
+  lastUsed: number;
+  lastChecked: number;
+}
+
+/**
+ * A pool of LDAP connections bound as the service account (or anonymously),
+ * used for the user search so that logins don't pay for a new connection and
+ * service bind every time.
+ *
+ * Idle connections are probed with a root DSE lookup every
+ * `keepAliveInterval` and closed after `idleTimeout`. A connection that fails
+ * with anything other than an LDAP result code is discarded, and the
+ * operation is retried once on a fresh connection.
+ *
+ * @internal
+ */
+export class LdapConnectionPool {
+  private readonly options: LdapConnectionPoolOptions;
+  private readonly idle: PooledConnection[] = [];
+  private readonly waiting: Array<{
+    resolve: (connection: PooledConnection) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  private size = 0;
+  private closed = false;
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(options: LdapConnectionPoolOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Runs an operation on a pooled connection.
+   */
+  async use<T>(operation: (client: Client) => Promise<T>): Promise<T> {
+    const connection = await this.acquire();
+    const reused = connection.lastUsed > 0;
+
+    try {
+      const result = await operation(connection.client);
+      this.release(connection);
+      return result;
+    } catch (error) {
+      if (!isConnectionError(error)) {
+        this.release(connection);
+        throw error;
+      }
+
+      await this.discard(connection);
+      if (!reused) {
+        throw error;
+      }
+
+      this.options.logger.debug(
+        `Pooled LDAP connection failed, retrying on a new connection: ${error}`,
+      );
+      return this.use(operation);
+    }
+  }
+
+  /**
+   * Closes all idle connections and stops the maintenance timer. Connections
+   * still in use are closed once their operation is done.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.stopTimer();
+    const connections = this.idle.splice(0);
+    await Promise.all(connections.map(c => this.discard(c)));
+  }
+
+  private async acquire(): Promise<PooledConnection> {
+    let connection = this.idle.pop();
+    while (connection && !connection.client.isConnected) {
+      // The server dropped the connection, open a new one instead
+      await this.discard(connection);
+      connection = this.idle.pop();
+    }
+    if (connection) {
+      return connection;
+    }
+
+    if (this.size >= this.options.maxSize) {
+      return new Promise((resolve, reject) =>
+        this.waiting.push({ resolve, reject }),
+      );
+    }
+
+    this.size += 1;
+    try {
+      const client = await this.options.createConnection();
+      return { client, lastUsed: 0, lastChecked: 0 };
+    } catch (error) {
+      this.size -= 1;
+      throw error;
+    }
+  }
+
+  private release(connection: PooledConnection) {
+    connection.lastUsed = Date.now();
+    connection.lastChecked = connection.lastUsed;
+    this.handOver(connection);
+  }
+
+  /**
+   * Hands a connection to the next waiting caller, or puts it back into the
+   * idle connections if nobody is waiting.
+   */
+  private handOver(connection: PooledConnection) {
+    const next = this.waiting.shift();
+    if (next) {
+      next.resolve(connection);
+      return;
+    }
+    if (this.closed) {
+      this.discard(connection);
+      return;
+    }
+
+    this.idle.push(connection);
+    this.startTimer();
+  }
+
+  private async discard(connection: PooledConnection) {
+    this.size -= 1;
+    await connection.client.unbind().catch(() => {});
+
+    // Let a waiting caller open a replacement connection
+    const next = this.waiting.shift();
+    if (next) {
+      this.acquire().then(next.resolve, next.reject);
+    }
+  }
+
+  private startTimer() {
+    if (this.timer) {
+      return;
+    }
+    const { idleTimeout, keepAliveInterval } = this.options;
+    const interval = Math.min(
+      idleTimeout,
+      keepAliveInterval > 0 ? keepAliveInterval : idleTimeout,
+    );
+    this.timer = setInterval(() => this.maintain(), interval);
+    this.timer.unref?.();
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async maintain() {
+    const { idleTimeout, keepAliveInterval, logger } = this.options;
+    const now = Date.now();
+
+    for (const connection of [...this.idle]) {
+      const expired = now - connection.lastUsed >= idleTimeout;
+      const probe =
+        keepAliveInterval > 0 &&
+        now - connection.lastChecked >= keepAliveInterval;
+      if (!expired && !probe) {
+        continue;
+      }
+
+      this.idle.splice(this.idle.indexOf(connection), 1);
+      if (expired) {
+        logger.debug('Closing idle pooled LDAP connection');
+        await this.discard(connection);
+        continue;
+      }
+
+      try {
+        await connection.client.search('', {
+          scope: 'base',
+          filter: '(objectClass=*)',
+          attributes: ['1.1'],
+        });
+        connection.lastChecked = Date.now();
+        // Callers may have queued up while the connection was probed
+        this.handOver(connection);
+      } catch (error) {
+        logger.debug(`Pooled LDAP connection failed keep-alive: ${error}`);
+        await this.discard(connection);
+      }
+    }
+
+    if (this.idle.length === 0) {
+      this.stopTimer();
+    }
+  }
+}
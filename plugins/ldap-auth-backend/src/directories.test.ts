@@ -0,0 +1,103 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import {
+  type LdapDirectory,
+  readLdapDirectories,
+  selectLdapDirectories,
+} from './directories';
+import type { LdapClientConfig } from './types';
+
+function createDirectory(
+  name: string,
+  match: { prefixes?: string[]; suffixes?: string[] } = {},
+): LdapDirectory {
+  return {
+    name,
+    prefixes: match.prefixes ?? [],
+    suffixes: match.suffixes ?? [],
+    ldapConfig: {} as LdapClientConfig,
+  };
+}
+
+const corp = createDirectory('corp', { prefixes: ['CORP\\'] });
+const lab = createDirectory('lab', { suffixes: ['@lab.example.org'] });
+const openldap = createDirectory('openldap');
+
+describe('selectLdapDirectories', () => {
+  const directories = [corp, lab, openldap];
+
+  it('should route usernames by prefix and suffix, without the realm', () => {
+    expect(selectLdapDirectories(directories, false, 'corp\\jdoe')).toEqual([
+      { directory: corp, username: 'jdoe' },
+    ]);
+    expect(
+      selectLdapDirectories(directories, false, 'jdoe@LAB.example.org'),
+    ).toEqual([{ directory: lab, username: 'jdoe' }]);
+  });
+
+  it('should use the first directory without match rules for other usernames', () => {
+    expect(selectLdapDirectories(directories, false, 'jdoe')).toEqual([
+      { directory: openldap, username: 'jdoe' },
+    ]);
+    expect(selectLdapDirectories([corp, lab], false, 'jdoe')).toEqual([]);
+  });
+
+  it('should try each directory in order if enabled', () => {
+    expect(selectLdapDirectories(directories, true, 'jdoe')).toEqual([
+      { directory: corp, username: 'jdoe' },
+      { directory: lab, username: 'jdoe' },
+      { directory: openldap, username: 'jdoe' },
+    ]);
+  });
+});
+
+describe('readLdapDirectories', () => {
+  const readLdapConfig = (config: any) =>
+    ({ url: config.getString('url') } as LdapClientConfig);
+
+  it('should read a config without directories as the default directory', () => {
+    expect(
+      readLdapDirectories(
+        new ConfigReader({ url: 'ldaps://ldap.example.org' }),
+        readLdapConfig,
+      ),
+    ).toEqual([
+      {
+        name: 'default',
+        prefixes: [],
+        suffixes: [],
+        ldapConfig: { url: 'ldaps://ldap.example.org' },
+      },
+    ]);
+  });
+
+  it('should reject duplicate directory names', () => {
+    expect(() =>
+      readLdapDirectories(
+        new ConfigReader({
+          directories: [
+            { name: 'corp', url: 'ldaps://dc1.example.org' },
+            { name: 'corp', url: 'ldaps://dc2.example.org' },
+          ],
+        }),
+        readLdapConfig,
+      ),
+    ).toThrow("Duplicate LDAP directory name 'corp'");
+  });
+});
@@ -0,0 +1,128 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import type { LdapClientConfig } from './types';
+
+/**
+ * One of the directories of an environment, and the username realms that
+ * are routed to it.
+ *
+ * @internal
+ */
+export interface LdapDirectory {
+  /** Name of the directory, recorded in the providerInfo of a sign-in */
+  name: string;
+  /** Username prefixes such as `CORP\` routed to this directory */
+  prefixes: string[];
+  /** Username suffixes such as `@corp.example.org` routed to this directory */
+  suffixes: string[];
+  ldapConfig: LdapClientConfig;
+}
+
+/**
+ * A directory to try for a sign-in, with the username to look up in it.
+ *
+ * @internal
+ */
+export interface LdapDirectoryCandidate {
+  directory: LdapDirectory;
+  username: string;
+}
+
+/**
+ * Reads the `directories` of an environment config, or the environment
+ * itself as a single directory named `default`.
+ *
+ * @internal
+ */
+export function readLdapDirectories(
+  config: Config,
+  readLdapConfig: (config: Config) => LdapClientConfig,
+): LdapDirectory[] {
+  const directoryConfigs = config.getOptionalConfigArray('directories');
+  if (!directoryConfigs) {
+    return [
+      {
+        name: 'default',
+        prefixes: [],
+        suffixes: [],
+        ldapConfig: readLdapConfig(config),
+      },
+    ];
+  }
+
+  const directories = directoryConfigs.map(directoryConfig => ({
+    name: directoryConfig.getString('name'),
+    prefixes: directoryConfig.getOptionalStringArray('match.prefixes') ?? [],
+    suffixes: directoryConfig.getOptionalStringArray('match.suffixes') ?? [],
+    ldapConfig: readLdapConfig(directoryConfig),
+  }));
+
+  const names = new Set<string>();
+  for (const { name } of directories) {
+    if (names.has(name)) {
+      throw new Error(`Duplicate LDAP directory name '${name}'`);
+    }
+    names.add(name);
+  }
+
+  return directories;
+}
+
+/**
+ * Picks the directories to try for a username, in order.
+ *
+ * The first directory with a prefix or suffix matching the username is
+ * used, with the prefix or suffix removed from the username. If no realm
+ * matches, every directory is tried in order if `tryEachDirectory` is set,
+ * or else the first directory without match rules is used.
+ *
+ * @internal
+ */
+export function selectLdapDirectories(
+  directories: LdapDirectory[],
+  tryEachDirectory: boolean,
+  username: string,
+): LdapDirectoryCandidate[] {
+  const lowerUsername = username.toLowerCase();
+
+  for (const directory of directories) {
+    const prefix = directory.prefixes.find(p =>
+      lowerUsername.startsWith(p.toLowerCase()),
+    );
+    if (prefix !== undefined) {
+      return [{ directory, username: username.slice(prefix.length) }];
+    }
+    const suffix = directory.suffixes.find(s =>
+      lowerUsername.endsWith(s.toLowerCase()),
+    );
+    if (suffix !== undefined) {
+      return [
+        { directory, username: username.slice(0, -suffix.length || undefined) },
+      ];
+    }
+  }
+
+  if (tryEachDirectory) {
+    return directories.map(directory => ({ directory, username }));
+  }
+
+  const fallback = directories.find(
+    d => d.prefixes.length === 0 && d.suffixes.length === 0,
+  );
+  return fallback ? [{ directory: fallback, username }] : [];
+}
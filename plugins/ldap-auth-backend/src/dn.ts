@@ -0,0 +1,40 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Escape special characters in an LDAP DN attribute value
+ * per RFC 4514.
+ *
+ * @internal
+ */
+export function escapeLdapDnValue(input: string): string {
+  return input
+    .split('')
+    .map((char, index) => {
+      if (char === '\0') {
+        return '\\00';
+      }
+      if (
+        /[\\"+,;<=>]/.test(char) ||
+        (index === 0 && (char === ' ' || char === '#')) ||
+        (index === input.length - 1 && char === ' ')
+      ) {
+        return `\\${char}`;
+      }
+      return char;
+    })
+    .join('');
+}
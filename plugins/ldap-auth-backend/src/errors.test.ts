@@ -0,0 +1,122 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { BusyError, InvalidCredentialsError } from 'ldapts';
+import { decodeBindError, isConnectionError, LdapAuthError } from './errors';
+import { PasswordPolicyControl } from './passwordPolicy';
+
+function activeDirectoryError(data: string) {
+  return new InvalidCredentialsError(
+    `80090308: LdapErr: DSID-0C09044E, comment: AcceptSecurityContext error, data ${data}, v4563\u0000`,
+  );
+}
+
+describe('decodeBindError', () => {
+  it.each([
+    ['52e', 'invalidCredentials'],
+    ['530', 'loginNotPermitted'],
+    ['532', 'passwordExpired'],
+    ['533', 'accountDisabled'],
+    ['701', 'accountExpired'],
+    ['773', 'passwordMustChange'],
+    ['775', 'accountLocked'],
+  ])('should decode Active Directory sub-code %s', (data, reason) => {
+    const error = decodeBindError(activeDirectoryError(data), 'jdoe');
+
+    expect(error).toBeInstanceOf(LdapAuthError);
+    expect(error.reason).toBe(reason);
+  });
+
+  it.each([
+    ['Password expired', 'passwordExpired'],
+    ['Password must be changed', 'passwordMustChange'],
+    ['Account locked', 'accountLocked'],
+    ['Account inactivated. Contact system administrator.', 'accountDisabled'],
+  ])('should decode the password policy message %j', (message, reason) => {
+    expect(
+      decodeBindError(new InvalidCredentialsError(message), 'jdoe').reason,
+    ).toBe(reason);
+  });
+
+  it.each([
+    [0, 'passwordExpired'],
+    [1, 'accountLocked'],
+    [2, 'passwordMustChange'],
+  ])(
+    'should decode the password policy control error %p',
+    (policyError, reason) => {
+      const control = Object.assign(new PasswordPolicyControl(), {
+        error: policyError,
+      });
+      const error = Object.assign(new InvalidCredentialsError(''), {
+        controls: [control],
+      });
+
+      expect(decodeBindError(error, 'jdoe').reason).toBe(reason);
+    },
+  );
+
+  it('should prefer the password policy control over the diagnostic message', () => {
+    const control = Object.assign(new PasswordPolicyControl(), { error: 1 });
+    const error = Object.assign(
+      new InvalidCredentialsError('Password expired'),
+      {
+        controls: [control],
+      },
+    );
+
+    expect(decodeBindError(error, 'jdoe').reason).toBe('accountLocked');
+  });
+
+  it('should not reveal the diagnostic message of the server', () => {
+    const expired = decodeBindError(activeDirectoryError('532'), 'jdoe');
+    expect(expired.message).toBe(
+      'Your password has expired and must be changed',
+    );
+
+    const invalid = decodeBindError(activeDirectoryError('52e'), 'jdoe');
+    expect(invalid.message).toBe("Invalid credentials for user 'jdoe'");
+  });
+});
+
+describe('isConnectionError', () => {
+  it.each([
+    Object.assign(new Error('connect ECONNREFUSED 10.0.0.1:636'), {
+      code: 'ECONNREFUSED',
+    }),
+    Object.assign(new Error('certificate has expired'), {
+      code: 'CERT_HAS_EXPIRED',
+    }),
+    new Error('Connection timeout'),
+    new Error('SearchRequest: Operation timed out'),
+    new Error(
+      'Socket error. Message type: BindRequest (0x60)\nread ECONNRESET',
+    ),
+    new BusyError('busy'),
+  ])('should count %p as a connection error', error => {
+    expect(isConnectionError(error)).toBe(true);
+  });
+
+  it.each([
+    new Error('Unbalanced parens in filter string: (uid=jdoe'),
+    new TypeError("Cannot read properties of undefined (reading 'dn')"),
+    new InvalidCredentialsError('Invalid credentials'),
+    'not an error',
+  ])('should not count %p as a connection error', error => {
+    expect(isConnectionError(error)).toBe(false);
+  });
+});
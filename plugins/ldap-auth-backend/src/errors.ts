@@ -0,0 +1,264 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { CustomErrorBase, ServiceUnavailableError } from '@backstage/errors';
+import {
+  PASSWORD_POLICY_ERRORS,
+  PasswordPolicyControl,
+} from './passwordPolicy';
+
+/** LDAP result codes with which a server reports it can't serve requests */
+const UNAVAILABLE_RESULT_CODES = [
+  51, // busy
+  52, // unavailable
+];
+
+/** Node.js error codes of failed sockets */
+const SOCKET_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EPIPE',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+];
+
+/**
+ * Messages of the errors ldapts raises for failed connections and timeouts,
+ * which carry no code. Socket errors of pending operations are wrapped in a
+ * plain error that only keeps the message of the socket error.
+ */
+const CONNECTION_ERROR_MESSAGES = [
+  /^Connection timeout$/,
+  /^Connection closed before message response was received/,
+  /^Socket connection not established$/,
+  /^Socket error\./,
+  /^\w+: Operation timed out$/,
+  new RegExp(`\\b(${SOCKET_ERROR_CODES.join('|')})\\b`),
+];
+
+/**
+ * Whether an error is caused by the connection to the LDAP server rather
+ * than being an LDAP result returned by the server or a problem of the
+ * request itself, such as an invalid search filter. Socket, TLS and timeout
+ * errors count as connection errors, as do the busy and unavailable result
+ * codes.
+ *
+ * @internal
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code } = error as { code?: unknown };
+  if (typeof code === 'number') {
+    return UNAVAILABLE_RESULT_CODES.includes(code);
+  }
+  if (typeof code === 'string') {
+    return (
+      SOCKET_ERROR_CODES.includes(code) ||
+      /^ERR_(TLS|SSL)_/.test(code) ||
+      /CERT|SELF_SIGNED/.test(code)
+    );
+  }
+  return CONNECTION_ERROR_MESSAGES.some(pattern => pattern.test(error.message));
+}
+
+/**
+ * Wraps connection errors in a {@link @backstage/errors#ServiceUnavailableError}
+ * so that they can be told apart from rejected credentials, and passes any
+ * other error through.
+ *
+ * @internal
+ */
+export function toUnavailableError(error: unknown): unknown {
+  if (isConnectionError(error)) {
+    return new ServiceUnavailableError(
+      'The LDAP directory is temporarily unavailable',
+      error,
+    );
+  }
+  return error;
+}
+
+/**
+ * Why the directory rejected a user bind.
+ *
+ * @public
+ */
+export type LdapAuthErrorReason =
+  | 'invalidCredentials'
+  | 'passwordExpired'
+  | 'passwordMustChange'
+  | 'accountLocked'
+  | 'accountDisabled'
+  | 'accountExpired'
+  | 'loginNotPermitted'
+  | 'passwordRejected';
+
+/**
+ * A rejected user bind, with the reason reported by the directory. The
+ * message is meant for the user, so it doesn't include the diagnostic
+ * message of the server.
+ *
+ * @public
+ */
+export class LdapAuthError extends CustomErrorBase {
+  name = 'LdapAuthError' as const;
+
+  constructor(readonly reason: LdapAuthErrorReason, message?: string) {
+    super(message);
+  }
+}
+
+/**
+ * Sub-codes that Active Directory puts in the diagnostic message of a failed
+ * bind, e.g. "AcceptSecurityContext error, data 532, v4563"
+ */
+const ACTIVE_DIRECTORY_REASONS: Record<string, LdapAuthErrorReason> = {
+  '525': 'invalidCredentials', // user not found
+  '52e': 'invalidCredentials',
+  '530': 'loginNotPermitted', // outside of the allowed logon hours
+  '531': 'loginNotPermitted', // not allowed from this workstation
+  '532': 'passwordExpired',
+  '533': 'accountDisabled',
+  '568': 'loginNotPermitted', // too many security ids
+  '701': 'accountExpired',
+  '773': 'passwordMustChange',
+  '775': 'accountLocked',
+};
+
+/** Errors of the password policy control that explain a refused bind */
+const PASSWORD_POLICY_REASONS: Record<number, LdapAuthErrorReason> = {
+  [PASSWORD_POLICY_ERRORS.passwordExpired]: 'passwordExpired',
+  [PASSWORD_POLICY_ERRORS.accountLocked]: 'accountLocked',
+  [PASSWORD_POLICY_ERRORS.changeAfterReset]: 'passwordMustChange',
+};
+
+/**
+ * Diagnostic messages of servers that explain a refused bind in the message
+ * rather than with the password policy control.
+ */
+const DIAGNOSTIC_REASONS: Array<[RegExp, LdapAuthErrorReason]> = [
+  [/password (has )?expired/i, 'passwordExpired'],
+  [
+    /(must|needs to) (be )?(changed?|reset)|change after reset/i,
+    'passwordMustChange',
+  ],
+  [/account (is )?(temporarily )?locked/i, 'accountLocked'],
+  [/account (is )?(disabled|inactivated|inactive)/i, 'accountDisabled'],
+  [/account (has )?expired/i, 'accountExpired'],
+];
+
+const USER_MESSAGES: Record<
+  Exclude<LdapAuthErrorReason, 'invalidCredentials'>,
+  string
+> = {
+  passwordExpired: 'Your password has expired and must be changed',
+  passwordMustChange: 'Your password must be changed before you can sign in',
+  accountLocked: 'Your account is locked, contact your administrator',
+  accountDisabled: 'Your account is disabled, contact your administrator',
+  accountExpired: 'Your account has expired, contact your administrator',
+  loginNotPermitted: 'You are not allowed to sign in at this time or place',
+  passwordRejected:
+    'The new password does not meet the password policy of the directory',
+};
+
+/**
+ * Creates an {@link LdapAuthError} with the message shown to the user for
+ * the reason.
+ *
+ * @internal
+ */
+export function createLdapAuthError(
+  reason: Exclude<LdapAuthErrorReason, 'invalidCredentials'>,
+): LdapAuthError {
+  return new LdapAuthError(reason, USER_MESSAGES[reason]);
+}
+
+/**
+ * Decodes the error of a failed user bind into an {@link LdapAuthError},
+ * using the password policy control, the Active Directory sub-code or the
+ * diagnostic message of the server. Anything unrecognised counts as invalid
+ * credentials.
+ *
+ * @internal
+ */
+export function decodeBindError(
+  error: unknown,
+  username: string,
+): LdapAuthError {
+  const diagnostic = error instanceof Error ? error.message : String(error);
+
+  const { controls } = (error ?? {}) as { controls?: unknown[] };
+  const policyError = controls?.find(
+    (control): control is PasswordPolicyControl =>
+      control instanceof PasswordPolicyControl,
+  )?.error;
+
+  let reason: LdapAuthErrorReason = 'invalidCredentials';
+  const adCode = diagnostic.match(/\bdata ([0-9a-f]{3,4})\b/i)?.[1];
+  if (policyError !== undefined && PASSWORD_POLICY_REASONS[policyError]) {
+    reason = PASSWORD_POLICY_REASONS[policyError];
+  } else if (adCode && ACTIVE_DIRECTORY_REASONS[adCode.toLowerCase()]) {
+    reason = ACTIVE_DIRECTORY_REASONS[adCode.toLowerCase()];
+  } else {
+    reason =
+      DIAGNOSTIC_REASONS.find(([pattern]) => pattern.test(diagnostic))?.[1] ??
+      reason;
+  }
+
+  if (reason === 'invalidCredentials') {
+    return new LdapAuthError(
+      reason,
+      `Invalid credentials for user '${username}'`,
+    );
+  }
+  return createLdapAuthError(reason);
+}
+
+/**
+ * Decodes the error of a failed password change. The directory rejects a
+ * new password that doesn't satisfy its policy with a constraint violation,
+ * and so does Active Directory if the old password is wrong, with the
+ * ERROR_INVALID_PASSWORD (0x56) error code.
+ *
+ * @internal
+ */
+export function decodePasswordChangeError(
+  error: unknown,
+  username: string,
+): Error {
+  const code = (error as { code?: unknown })?.code;
+  const diagnostic = error instanceof Error ? error.message : String(error);
+
+  if (code === 49 || (code === 19 && /^0*56:/.test(diagnostic))) {
+    return new LdapAuthError(
+      'invalidCredentials',
+      `Invalid credentials for user '${username}'`,
+    );
+  }
+  if (code === 19) {
+    return new LdapAuthError(
+      'passwordRejected',
+      USER_MESSAGES.passwordRejected,
+    );
+  }
+  return new Error(`Failed to change the password of user '${username}'`);
+}
@@ -0,0 +1,84 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createExtensionPoint } from '@backstage/backend-plugin-api';
+import type { SignInResolverFactory } from '@backstage/plugin-auth-node';
+import type {
+  LdapAccountStatusChecker,
+  LdapAuthResult,
+  LdapProfileTransform,
+} from './types';
+
+/**
+ * Extension point for customizing the LDAP auth provider from other
+ * backend modules of the auth plugin.
+ *
+ * @public
+ */
+export interface LdapAuthExtensionPoint {
+  /**
+   * Registers additional sign-in resolver factories. They can be referenced
+   * by name from `signIn.resolvers` just like the built-in ones, and take
+   * precedence over built-in resolvers with the same name.
+   */
+  addSignInResolverFactories(factories: {
+    [name in string]: SignInResolverFactory<LdapAuthResult>;
+  }): void;
+
+  /**
+   * Replaces the transform used to build the sign-in profile from the
+   * authenticated LDAP user.
+   */
+  setProfileTransform(transform: LdapProfileTransform): void;
+
+  /**
+   * Registers additional account status checks. They can be referenced by
+   * name from `accountStatus.checks` just like the built-in ones, and take
+   * precedence over built-in checks with the same name.
+   */
+  addAccountStatusCheckers(checkers: {
+    [name in string]: LdapAccountStatusChecker;
+  }): void;
+}
+
+/**
+ * Extension point for the LDAP auth provider module.
+ *
+ * Usage:
+ * ```ts
+ * export const authModuleLdapCustomization = createBackendModule({
+ *   pluginId: 'auth',
+ *   moduleId: 'ldap-customization',
+ *   register(reg) {
+ *     reg.registerInit({
+ *       deps: { ldap: ldapAuthExtensionPoint },
+ *       async init({ ldap }) {
+ *         ldap.addSignInResolverFactories({ myResolver });
+ *         ldap.setProfileTransform(userInfo => ({
+ *           displayName: userInfo.attributes.cn as string,
+ *         }));
+ *       },
+ *     });
+ *   },
+ * });
+ * ```
+ *
+ * @public
+ */
+export const ldapAuthExtensionPoint =
+  createExtensionPoint<LdapAuthExtensionPoint>({
+    id: 'auth.ldap',
+  });
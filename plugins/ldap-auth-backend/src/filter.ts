@@ -0,0 +1,39 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Escape special characters in an LDAP filter value
+ * per RFC 4515.
+ *
+ * @internal
+ */
+export function escapeLdapFilter(input: string): string {
+  return input.replace(/[\\*()"\0/]/g, char => {
+    return `\\${char.charCodeAt(0).toString(16).padStart(2, '0')}`;
+  });
+}
+
+/**
+ * Escape every byte of a binary LDAP filter value, e.g. an objectSid.
+ *
+ * @internal
+ */
+export function escapeLdapFilterBytes(input: Buffer): string {
+  return Array.from(
+    input,
+    byte => `\\${byte.toString(16).padStart(2, '0')}`,
+  ).join('');
+}
@@ -0,0 +1,90 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import {
+  mapGroupsToEntityRefs,
+  readLdapGroupMappingConfig,
+} from './groupMapping';
+
+function readMappings(groupMapping: unknown[]) {
+  return readLdapGroupMappingConfig(new ConfigReader({ groupMapping } as any));
+}
+
+describe('mapGroupsToEntityRefs', () => {
+  it('should map groups matching a DN pattern', () => {
+    const mappings = readMappings([
+      { dn: 'cn=(.*),ou=groups', entityRef: 'group:default/$1' },
+    ]);
+
+    expect(
+      mapGroupsToEntityRefs(
+        [
+          'cn=Team-A,ou=groups,dc=example,dc=org',
+          'cn=vpn,ou=system,dc=example,dc=org',
+        ],
+        mappings,
+      ),
+    ).toEqual(['group:default/team-a']);
+  });
+
+  it('should map groups matching a whole CN pattern', () => {
+    const mappings = readMappings([
+      { cn: 'team-(.*)', entityRef: 'group:teams/$1' },
+    ]);
+
+    expect(
+      mapGroupsToEntityRefs(
+        ['cn=team-a,ou=groups,dc=example,dc=org', 'my-team-b', 'team-c'],
+        mappings,
+      ),
+    ).toEqual(['group:teams/a', 'group:teams/c']);
+  });
+
+  it('should use the first matching mapping of each group', () => {
+    const mappings = readMappings([
+      { cn: 'admins', entityRef: 'group:default/platform-admins' },
+      { dn: 'cn=(.*),ou=groups', entityRef: 'group:default/$1' },
+    ]);
+
+    expect(
+      mapGroupsToEntityRefs(
+        [
+          'cn=admins,ou=groups,dc=example,dc=org',
+          'cn=devs,ou=groups,dc=example,dc=org',
+        ],
+        mappings,
+      ),
+    ).toEqual(['group:default/platform-admins', 'group:default/devs']);
+  });
+});
+
+describe('readLdapGroupMappingConfig', () => {
+  it('should require either a dn or a cn pattern', () => {
+    expect(() =>
+      readMappings([
+        { dn: 'cn=(.*)', cn: '(.*)', entityRef: 'group:default/$1' },
+      ]),
+    ).toThrow('must have either a dn or a cn pattern');
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() =>
+      readMappings([{ dn: 'cn=(.*', entityRef: 'group:default/$1' }]),
+    ).toThrow("Invalid LDAP groupMapping pattern 'cn=(.*'");
+  });
+});
@@ -0,0 +1,95 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+import { groupName } from './access';
+
+/**
+ * Maps LDAP groups matching a pattern to a Backstage entity ref.
+ *
+ * @internal
+ */
+export interface LdapGroupMapping {
+  /** Whether the pattern is matched against the group DN or its CN */
+  match: 'dn' | 'cn';
+  /** Pattern matched case-insensitively, anywhere in a DN but against a whole CN */
+  pattern: RegExp;
+  /** Entity ref template, in which $1 to $9 are replaced with the captured groups */
+  entityRef: string;
+}
+
+/**
+ * Reads the `groupMapping` list of an LDAP environment config.
+ *
+ * @internal
+ */
+export function readLdapGroupMappingConfig(config: Config): LdapGroupMapping[] {
+  return (config.getOptionalConfigArray('groupMapping') ?? []).map(mapping => {
+    const dn = mapping.getOptionalString('dn');
+    const cn = mapping.getOptionalString('cn');
+    if ((dn === undefined) === (cn === undefined)) {
+      throw new Error(
+        'Each LDAP groupMapping entry must have either a dn or a cn pattern',
+      );
+    }
+
+    const source = dn ?? `^(?:${cn})$`;
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, 'i');
+    } catch (error) {
+      throw new Error(`Invalid LDAP groupMapping pattern '${dn ?? cn}'`, {
+        cause: error,
+      });
+    }
+
+    return {
+      match: dn !== undefined ? 'dn' : 'cn',
+      pattern,
+      entityRef: mapping.getString('entityRef'),
+    };
+  });
+}
+
+/**
+ * Maps the groups of a user to entity refs using the first mapping that
+ * matches each group. The refs are lowercased, like the ownership claims
+ * that Backstage issues itself.
+ *
+ * @internal
+ */
+export function mapGroupsToEntityRefs(
+  groups: string[],
+  mappings: LdapGroupMapping[],
+): string[] {
+  const entityRefs = new Set<string>();
+  for (const group of groups) {
+    for (const mapping of mappings) {
+      const match = (mapping.match === 'dn' ? group : groupName(group)).match(
+        mapping.pattern,
+      );
+      if (match) {
+        entityRefs.add(
+          mapping.entityRef
+            .replace(/\$(\d)/g, (_, index) => match[Number(index)] ?? '')
+            .toLowerCase(),
+        );
+        break;
+      }
+    }
+  }
+  return Array.from(entityRefs);
+}
@@ -0,0 +1,205 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { jest, describe, it, expect } from '@jest/globals';
+import { expandGroups, searchMemberGroups } from './groups';
+import type { LdapClientConfig } from './types';
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn<any>().mockReturnThis(),
+} as any;
+
+const userDN = 'uid=jdoe,ou=users,dc=example,dc=org';
+const teamA = 'cn=team-a,ou=groups,dc=example,dc=org';
+const platform = 'cn=platform-eng,ou=groups,dc=example,dc=org';
+const engineering = 'cn=engineering,ou=groups,dc=example,dc=org';
+
+function createConfig(
+  groups: Partial<LdapClientConfig['groups']>,
+): LdapClientConfig {
+  return {
+    groups: {
+      searchBase: 'ou=groups,dc=example,dc=org',
+      memberAttribute: 'member',
+      memberValue: 'dn',
+      expansion: 'none',
+      maxDepth: 10,
+      ...groups,
+    },
+  } as LdapClientConfig;
+}
+
+/**
+ * A client whose search answers `(member=<dn>)` filters from a map of
+ * group DN to the DNs of the groups it is a member of.
+ */
+function createGroupTreeClient(parents: Record<string, string[]>) {
+  const search = jest.fn(async (_base: string, options: any) => {
+    const members = Array.from(
+      (options.filter as string).matchAll(/\(member=([^()]*)\)/g),
+      match => match[1],
+    );
+    return {
+      searchEntries: members.flatMap(dn =>
+        (parents[dn] ?? []).map(parent => ({ dn: parent })),
+      ),
+    };
+  });
+  return { client: { search } as any, search };
+}
+
+describe('searchMemberGroups', () => {
+  it.each([
+    ['member', 'dn', `(&(objectClass=groupOfNames)(member=${userDN}))`],
+    [
+      'uniqueMember',
+      'dn',
+      `(&(objectClass=groupOfNames)(uniqueMember=${userDN}))`,
+    ],
+    ['memberUid', 'uid', '(&(objectClass=groupOfNames)(memberUid=jdoe))'],
+  ] as const)(
+    'should search by %s holding the user %s',
+    async (memberAttribute, memberValue, filter) => {
+      const search = jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ searchEntries: [{ dn: teamA }] });
+
+      await expect(
+        searchMemberGroups(
+          { search } as any,
+          { dn: userDN, uid: 'jdoe' },
+          createConfig({
+            filter: '(objectClass=groupOfNames)',
+            memberAttribute,
+            memberValue,
+          }),
+        ),
+      ).resolves.toEqual([teamA]);
+      expect(search).toHaveBeenCalledWith(
+        'ou=groups,dc=example,dc=org',
+        expect.objectContaining({ filter }),
+      );
+    },
+  );
+});
+
+describe('expandGroups', () => {
+  it('should return the direct groups without expansion', async () => {
+    const { client, search } = createGroupTreeClient({});
+
+    await expect(
+      expandGroups(client, userDN, [teamA], createConfig({}), mockLogger),
+    ).resolves.toEqual([teamA]);
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('should walk up nested groups recursively', async () => {
+    const { client } = createGroupTreeClient({
+      [teamA]: [platform],
+      [platform]: [engineering],
+    });
+
+    await expect(
+      expandGroups(
+        client,
+        userDN,
+        [teamA],
+        createConfig({ expansion: 'recursive' }),
+        mockLogger,
+      ),
+    ).resolves.toEqual([teamA, platform, engineering]);
+  });
+
+  it('should stop at membership cycles', async () => {
+    const { client, search } = createGroupTreeClient({
+      [teamA]: [platform],
+      [platform]: [teamA.toUpperCase()],
+    });
+
+    await expect(
+      expandGroups(
+        client,
+        userDN,
+        [teamA],
+        createConfig({ expansion: 'recursive' }),
+        mockLogger,
+      ),
+    ).resolves.toEqual([teamA, platform]);
+    expect(search).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop at the maximum depth', async () => {
+    const { client } = createGroupTreeClient({
+      [teamA]: [platform],
+      [platform]: [engineering],
+    });
+
+    await expect(
+      expandGroups(
+        client,
+        userDN,
+        [teamA],
+        createConfig({ expansion: 'recursive', maxDepth: 1 }),
+        mockLogger,
+      ),
+    ).resolves.toEqual([teamA, platform]);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Stopped expanding nested LDAP groups after 1 levels',
+    );
+  });
+
+  it('should look up the groups of the tokenGroups SIDs', async () => {
+    const sid = Buffer.from([
+      1, 2, 0, 0, 0, 0, 0, 5, 32, 0, 0, 0, 0x21, 2, 0, 0,
+    ]);
+    const search = jest
+      .fn<(...args: any[]) => any>()
+      .mockResolvedValueOnce({
+        searchEntries: [{ dn: userDN, tokenGroups: [sid] }],
+      })
+      .mockResolvedValueOnce({ searchEntries: [{ dn: platform }] });
+
+    await expect(
+      expandGroups(
+        { search } as any,
+        userDN,
+        [],
+        createConfig({ expansion: 'tokenGroups' }),
+        mockLogger,
+      ),
+    ).resolves.toEqual([platform]);
+    expect(search).toHaveBeenNthCalledWith(
+      1,
+      userDN,
+      expect.objectContaining({
+        scope: 'base',
+        explicitBufferAttributes: ['tokenGroups'],
+      }),
+    );
+    expect(search).toHaveBeenNthCalledWith(
+      2,
+      'ou=groups,dc=example,dc=org',
+      expect.objectContaining({
+        filter:
+          '(|(objectSid=\\01\\02\\00\\00\\00\\00\\00\\05\\20\\00\\00\\00\\21\\02\\00\\00))',
+      }),
+    );
+  });
+});
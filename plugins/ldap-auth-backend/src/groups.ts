@@ -0,0 +1,189 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import type { Client } from 'ldapts';
+import { escapeLdapFilter, escapeLdapFilterBytes } from './filter';
+import type { LdapClientConfig, LdapUserInfo } from './types';
+
+/** Active Directory LDAP_MATCHING_RULE_IN_CHAIN */
+const IN_CHAIN_MATCHING_RULE = '1.2.840.113556.1.4.1941';
+
+/** How many values are combined into one OR filter */
+const FILTER_BATCH_SIZE = 50;
+
+/**
+ * Searches for the DNs of the groups that list the user as a member, for
+ * directories that don't maintain a memberOf attribute. Depending on the
+ * configured `groups.memberAttribute` and `groups.memberValue` this covers
+ * groupOfNames/member, groupOfUniqueNames/uniqueMember and
+ * posixGroup/memberUid groups.
+ *
+ * @internal
+ */
+export async function searchMemberGroups(
+  client: Client,
+  user: Pick<LdapUserInfo, 'dn' | 'uid'>,
+  config: LdapClientConfig,
+): Promise<string[]> {
+  const { memberAttribute, memberValue } = config.groups;
+  const value = memberValue === 'uid' ? user.uid : user.dn;
+  return searchGroupDNs(
+    client,
+    config.groups.searchBase,
+    withGroupFilter(`(${memberAttribute}=${escapeLdapFilter(value)})`, config),
+  );
+}
+
+/**
+ * Resolves the DNs of all groups a user is a member of, directly or through
+ * other groups, using the configured `groups.expansion` mode.
+ *
+ * - `matchingRuleInChain` lets Active Directory resolve the chain in one
+ *   search.
+ * - `tokenGroups` reads the constructed tokenGroups attribute of the Active
+ *   Directory user entry and looks up the groups by SID.
+ * - `recursive` walks up from the direct groups, searching for the groups
+ *   that list each group as a member, up to `groups.maxDepth` levels. Groups
+ *   are matched by DN in `groups.memberAttribute`, or in `member` if that
+ *   holds user ids, since posixGroups can't be nested.
+ *
+ * @internal
+ */
+export async function expandGroups(
+  client: Client,
+  userDN: string,
+  directGroups: string[],
+  config: LdapClientConfig,
+  logger: LoggerService,
+): Promise<string[]> {
+  switch (config.groups.expansion) {
+    case 'matchingRuleInChain':
+      return searchGroupDNs(
+        client,
+        config.groups.searchBase,
+        `(member:${IN_CHAIN_MATCHING_RULE}:=${escapeLdapFilter(userDN)})`,
+      );
+    case 'tokenGroups':
+      return expandTokenGroups(client, userDN, config);
+    case 'recursive':
+      return expandRecursively(client, directGroups, config, logger);
+    default:
+      return directGroups;
+  }
+}
+
+async function expandTokenGroups(
+  client: Client,
+  userDN: string,
+  config: LdapClientConfig,
+): Promise<string[]> {
+  const { searchEntries } = await client.search(userDN, {
+    scope: 'base',
+    attributes: ['tokenGroups'],
+    explicitBufferAttributes: ['tokenGroups'],
+  });
+  const value = searchEntries[0]?.tokenGroups;
+  const sids = ([] as unknown[])
+    .concat(value ?? [])
+    .filter((sid): sid is Buffer => Buffer.isBuffer(sid));
+
+  const groups: string[] = [];
+  for (let i = 0; i < sids.length; i += FILTER_BATCH_SIZE) {
+    const filters = sids
+      .slice(i, i + FILTER_BATCH_SIZE)
+      .map(sid => `(objectSid=${escapeLdapFilterBytes(sid)})`);
+    groups.push(
+      ...(await searchGroupDNs(
+        client,
+        config.groups.searchBase,
+        `(|${filters.join('')})`,
+      )),
+    );
+  }
+  return groups;
+}
+
+async function expandRecursively(
+  client: Client,
+  directGroups: string[],
+  config: LdapClientConfig,
+  logger: LoggerService,
+): Promise<string[]> {
+  const memberAttribute =
+    config.groups.memberValue === 'dn'
+      ? config.groups.memberAttribute
+      : 'member';
+
+  // Keyed by the lowercased DN, since DNs are matched case-insensitively
+  const seen = new Map(directGroups.map(dn => [dn.toLowerCase(), dn]));
+  let frontier = directGroups;
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    if (depth > config.groups.maxDepth) {
+      logger.warn(
+        `Stopped expanding nested LDAP groups after ${config.groups.maxDepth} levels`,
+      );
+      break;
+    }
+
+    const parents: string[] = [];
+    for (let i = 0; i < frontier.length; i += FILTER_BATCH_SIZE) {
+      const filters = frontier
+        .slice(i, i + FILTER_BATCH_SIZE)
+        .map(dn => `(${memberAttribute}=${escapeLdapFilter(dn)})`);
+      parents.push(
+        ...(await searchGroupDNs(
+          client,
+          config.groups.searchBase,
+          withGroupFilter(`(|${filters.join('')})`, config),
+        )),
+      );
+    }
+
+    // Groups that were already seen are not walked again, which also
+    // breaks membership cycles
+    frontier = [];
+    for (const dn of parents) {
+      if (!seen.has(dn.toLowerCase())) {
+        seen.set(dn.toLowerCase(), dn);
+        frontier.push(dn);
+      }
+    }
+  }
+
+  return Array.from(seen.values());
+}
+
+/**
+ * Restricts a filter to the entries matching the configured `groups.filter`.
+ */
+function withGroupFilter(filter: string, config: LdapClientConfig): string {
+  return config.groups.filter ? `(&${config.groups.filter}${filter})` : filter;
+}
+
+async function searchGroupDNs(
+  client: Client,
+  searchBase: string,
+  filter: string,
+): Promise<string[]> {
+  const { searchEntries } = await client.search(searchBase, {
+    scope: 'sub',
+    filter,
+    attributes: ['1.1'],
+  });
+  return searchEntries.map(entry => entry.dn);
+}
@@ -22,16 +22,32 @@
 
 export { authModuleLdapProvider } from './module';
 export { authModuleLdapProvider as default } from './module';
-export { createLdapProviderFactory } from './provider';
+export {
+  createLdapProviderFactory,
+  defaultLdapProfileTransform,
+} from './provider';
 export type { LdapProviderFactoryOptions } from './provider';
+export { ldapAuthExtensionPoint } from './extensions';
+export type { LdapAuthExtensionPoint } from './extensions';
+export { LdapAuthError } from './errors';
+export type { LdapAuthErrorReason } from './errors';
+export { ldapAccountStatusCheckers } from './accountStatus';
 export type {
+  LdapAccountStatus,
+  LdapAccountStatusChecker,
   LdapAuthResponse,
   LdapAuthResult,
+  LdapBinaryEncoding,
   LdapClientConfig,
+  LdapEntry,
+  LdapProfileTransform,
   LdapUserInfo,
 } from './types';
 export {
   ldapSignInResolvers,
   usernameMatchingUserEntityName,
   emailMatchingUserEntityAnnotation,
+  dnMatchingUserEntityAnnotation,
+  uuidMatchingUserEntityAnnotation,
+  usernameWithoutCatalogUser,
 } from './resolvers';
@@ -22,27 +22,79 @@ import {
   beforeAll,
   beforeEach,
 } from '@jest/globals';
+import { ldapAccountStatusCheckers } from './accountStatus';
 import type { LdapClientConfig } from './types';
-import type { authenticateWithLdap as AuthFn } from './ldapClient';
+import type {
+  authenticateWithLdap as AuthFn,
+  changeLdapPassword as ChangeFn,
+  closeLdapConnections as CloseFn,
+  readLdapUser as ReadFn,
+} from './ldapClient';
 
 // Mock ldapts Client
 const mockBind = jest.fn<(...args: any[]) => any>();
 const mockUnbind = jest.fn<(...args: any[]) => any>();
 const mockSearch = jest.fn<(...args: any[]) => any>();
+const mockStartTLS = jest.fn<(...args: any[]) => any>();
+const mockExop = jest.fn<(...args: any[]) => any>();
+const mockModify = jest.fn<(...args: any[]) => any>();
+
+const MockClient = jest.fn<any>().mockImplementation(() => ({
+  bind: mockBind,
+  unbind: mockUnbind,
+  search: mockSearch,
+  startTLS: mockStartTLS,
+  exop: mockExop,
+  modify: mockModify,
+  isConnected: true,
+}));
 
 jest.unstable_mockModule('ldapts', () => ({
-  Client: jest.fn<any>().mockImplementation(() => ({
-    bind: mockBind,
-    unbind: mockUnbind,
-    search: mockSearch,
-  })),
+  Client: MockClient,
+  Control: class {
+    constructor(readonly type: string) {}
+    parse(reader: unknown) {
+      (this as any).parseControl(reader);
+    }
+  },
+  Attribute: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
+  Change: class {
+    constructor(options: object) {
+      Object.assign(this, options);
+    }
+  },
 }));
 
 let authenticateWithLdap: typeof AuthFn;
+let changeLdapPassword: typeof ChangeFn;
+let readLdapUser: typeof ReadFn;
+let closeLdapConnections: typeof CloseFn;
+
+// ldapts result errors carry the numeric LDAP result code
+function invalidCredentialsError() {
+  return Object.assign(new Error('Invalid credentials'), { code: 49 });
+}
+
+// Binds ask for the password policy control
+const passwordPolicyControl = expect.objectContaining({
+  type: '1.3.6.1.4.1.42.2.27.8.5.1',
+});
+
+// Lets the password policy control of a bind parse a response value
+function respondWithPasswordPolicy(control: any, value: number[]) {
+  control.parse({ buffer: Buffer.from(value) });
+}
 
 beforeAll(async () => {
   const mod = await import('./ldapClient');
   authenticateWithLdap = mod.authenticateWithLdap;
+  changeLdapPassword = mod.changeLdapPassword;
+  readLdapUser = mod.readLdapUser;
+  closeLdapConnections = mod.closeLdapConnections;
 });
 
 const mockLogger = {
@@ -61,13 +113,38 @@ const defaultConfig: LdapClientConfig = {
   usernameAttribute: 'uid',
   searchFilter: '(uid={{username}})',
   userAttributes: ['mail', 'displayName', 'memberOf'],
-  tls: { rejectUnauthorized: true },
+  binaryAttributes: {},
+  attributeMap: {
+    uid: 'uid',
+    displayName: 'displayName',
+    email: 'mail',
+    pictureMaxSize: 102400,
+  },
+  tls: { rejectUnauthorized: true, startTls: false, required: false },
+  timeouts: { connect: 5000, operation: 10000 },
+  servers: { strategy: 'failover', maxFailures: 3, cooldown: 30000 },
+  pool: { maxSize: 5, idleTimeout: 300000, keepAliveInterval: 60000 },
+  groups: {
+    searchBase: 'ou=groups,dc=example,dc=org',
+    memberAttribute: 'member',
+    memberValue: 'dn',
+    expansion: 'none',
+    maxDepth: 10,
+  },
+  passwordChange: { enabled: true, method: 'passwordModify' },
+  accountStatus: {
+    checkers: Object.values(ldapAccountStatusCheckers),
+  },
 };
 
 describe('authenticateWithLdap', () => {
+  let config: LdapClientConfig;
+
   beforeEach(() => {
     jest.clearAllMocks();
     mockUnbind.mockResolvedValue(undefined);
+    // Connection pools are kept per config object
+    config = { ...defaultConfig };
   });
 
   it('should authenticate a valid user', async () => {
@@ -87,7 +164,7 @@ describe('authenticateWithLdap', () => {
     const result = await authenticateWithLdap(
       'jdoe',
       'correct-password',
-      defaultConfig,
+      config,
       mockLogger,
     );
 
@@ -110,27 +187,163 @@ describe('authenticateWithLdap', () => {
       1,
       'cn=service,dc=example,dc=org',
       'service-password',
+      passwordPolicyControl,
     );
     expect(mockBind).toHaveBeenNthCalledWith(
       2,
       'uid=jdoe,ou=users,dc=example,dc=org',
       'correct-password',
+      passwordPolicyControl,
+    );
+  });
+
+  it('should refuse disabled accounts whose password the directory accepts', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+          uid: 'jdoe',
+          nsAccountLock: 'TRUE',
+        },
+      ],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'correct-password', config, mockLogger),
+    ).rejects.toThrow(
+      expect.objectContaining({
+        name: 'LdapAuthError',
+        reason: 'accountDisabled',
+      }),
+    );
+    expect(mockSearch).toHaveBeenCalledWith(
+      'ou=users,dc=example,dc=org',
+      expect.objectContaining({
+        attributes: expect.arrayContaining([
+          'userAccountControl',
+          'pwdAccountLockedTime',
+          'nsAccountLock',
+          'shadowExpire',
+        ]),
+      }),
+    );
+  });
+
+  it('should check the account status of the entry read after the bind', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch
+      .mockResolvedValueOnce({
+        searchEntries: [
+          {
+            dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+            uid: 'jdoe',
+            pwdAccountLockedTime: '000001010000Z',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        searchEntries: [
+          { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+        ],
+      });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'correct-password',
+      config,
+      mockLogger,
+    );
+
+    expect(result.uid).toBe('jdoe');
+    expect(mockSearch).toHaveBeenLastCalledWith(
+      'uid=jdoe,ou=users,dc=example,dc=org',
+      expect.objectContaining({
+        scope: 'base',
+        attributes: expect.arrayContaining(['pwdAccountLockedTime']),
+      }),
+    );
+  });
+
+  it('should not reveal the account status before the password is accepted', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(invalidCredentialsError());
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+          uid: 'jdoe',
+          nsAccountLock: 'TRUE',
+        },
+      ],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'wrong-password', config, mockLogger),
+    ).rejects.toThrow(
+      expect.objectContaining({ reason: 'invalidCredentials' }),
     );
   });
 
+  it('should refuse accounts not matching the account status filter', async () => {
+    config.accountStatus = {
+      checkers: [],
+      filter: '(!(employeeStatus=terminated))',
+    };
+    const userEntry = {
+      dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+      uid: 'jdoe',
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch
+      .mockResolvedValueOnce({ searchEntries: [userEntry] }) // user search
+      .mockResolvedValueOnce({ searchEntries: [userEntry] }) // read after bind
+      .mockResolvedValueOnce({ searchEntries: [] });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'correct-password', config, mockLogger),
+    ).rejects.toThrow(expect.objectContaining({ reason: 'accountDisabled' }));
+    expect(mockSearch).toHaveBeenLastCalledWith(
+      'uid=jdoe,ou=users,dc=example,dc=org',
+      {
+        scope: 'base',
+        filter: '(!(employeeStatus=terminated))',
+        attributes: ['1.1'],
+      },
+    );
+  });
+
+  it('should not report an invalid search filter as an unavailable directory', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockRejectedValue(
+      new Error('Unbalanced parens in filter string: (uid=jdoe'),
+    );
+
+    const error = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    ).catch(e => e);
+
+    expect(error.name).not.toBe('ServiceUnavailableError');
+    expect(error.message).toContain('Unbalanced parens');
+  });
+
   it('should throw when user is not found in LDAP', async () => {
     mockBind.mockResolvedValue(undefined);
     mockSearch.mockResolvedValue({ searchEntries: [] });
 
     await expect(
-      authenticateWithLdap('unknown', 'pass', defaultConfig, mockLogger),
+      authenticateWithLdap('unknown', 'pass', config, mockLogger),
     ).rejects.toThrow("User 'unknown' not found in LDAP directory");
   });
 
   it('should throw when user password is incorrect', async () => {
     mockBind
       .mockResolvedValueOnce(undefined) // service bind OK
-      .mockRejectedValueOnce(new Error('Invalid credentials')); // user bind fails
+      .mockRejectedValueOnce(invalidCredentialsError()); // user bind fails
 
     mockSearch.mockResolvedValue({
       searchEntries: [
@@ -142,10 +355,295 @@ describe('authenticateWithLdap', () => {
     });
 
     await expect(
-      authenticateWithLdap('jdoe', 'wrong-password', defaultConfig, mockLogger),
+      authenticateWithLdap('jdoe', 'wrong-password', config, mockLogger),
     ).rejects.toThrow("Invalid credentials for user 'jdoe'");
   });
 
+  it('should report why Active Directory rejected the bind', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(
+        Object.assign(
+          new Error(
+            '80090308: LdapErr: DSID-0C09044E, comment: AcceptSecurityContext error, data 532, v4563',
+          ),
+          { code: 49 },
+        ),
+      );
+    mockSearch.mockResolvedValue({
+      searchEntries: [{ dn: 'uid=jdoe,ou=users,dc=example,dc=org' }],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'old-password', config, mockLogger),
+    ).rejects.toMatchObject({
+      name: 'LdapAuthError',
+      reason: 'passwordExpired',
+      message: 'Your password has expired and must be changed',
+    });
+  });
+
+  it('should report an expired password from the password policy control', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockImplementationOnce(async (_dn, _password, control) => {
+        respondWithPasswordPolicy(control, [0x30, 0x03, 0x81, 0x01, 0x00]);
+        throw invalidCredentialsError();
+      });
+    mockSearch.mockResolvedValue({
+      searchEntries: [{ dn: 'uid=jdoe,ou=users,dc=example,dc=org' }],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'old-password', config, mockLogger),
+    ).rejects.toMatchObject({
+      name: 'LdapAuthError',
+      reason: 'passwordExpired',
+    });
+  });
+
+  it('should refuse a bind the password policy only allows a password change on', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockImplementationOnce(async (_dn, _password, control) => {
+        respondWithPasswordPolicy(control, [0x30, 0x03, 0x81, 0x01, 0x02]);
+      });
+    mockSearch.mockResolvedValue({
+      searchEntries: [{ dn: 'uid=jdoe,ou=users,dc=example,dc=org' }],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'reset-password', config, mockLogger),
+    ).rejects.toMatchObject({
+      name: 'LdapAuthError',
+      reason: 'passwordMustChange',
+    });
+    expect(mockUnbind).toHaveBeenCalled();
+  });
+
+  it('should search for the groups of the user if configured', async () => {
+    config.groups = {
+      ...config.groups,
+      filter: '(objectClass=posixGroup)',
+      memberAttribute: 'memberUid',
+      memberValue: 'uid',
+    };
+    const userEntry = {
+      dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+      uid: 'jdoe',
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch
+      .mockResolvedValueOnce({ searchEntries: [userEntry] }) // user search
+      .mockResolvedValueOnce({ searchEntries: [userEntry] }) // read after bind
+      .mockResolvedValueOnce({
+        searchEntries: [{ dn: 'cn=devs,ou=groups,dc=example,dc=org' }],
+      });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    );
+
+    expect(mockSearch).toHaveBeenLastCalledWith(
+      'ou=groups,dc=example,dc=org',
+      expect.objectContaining({
+        filter: '(&(objectClass=posixGroup)(memberUid=jdoe))',
+      }),
+    );
+    expect(result.memberOf).toEqual(['cn=devs,ou=groups,dc=example,dc=org']);
+  });
+
+  it('should resolve nested groups when group expansion is configured', async () => {
+    config.groups = { ...config.groups, expansion: 'matchingRuleInChain' };
+    const userEntry = {
+      dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+      uid: 'jdoe',
+      memberOf: ['cn=team-a,ou=groups,dc=example,dc=org'],
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch
+      .mockResolvedValueOnce({ searchEntries: [userEntry] }) // user search
+      .mockResolvedValueOnce({ searchEntries: [userEntry] }) // read after bind
+      .mockResolvedValueOnce({
+        searchEntries: [
+          { dn: 'cn=team-a,ou=groups,dc=example,dc=org' },
+          { dn: 'cn=platform-eng,ou=groups,dc=example,dc=org' },
+        ],
+      });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    );
+
+    expect(mockSearch).toHaveBeenLastCalledWith(
+      'ou=groups,dc=example,dc=org',
+      expect.objectContaining({
+        filter:
+          '(member:1.2.840.113556.1.4.1941:=uid=jdoe,ou=users,dc=example,dc=org)',
+      }),
+    );
+    expect(result.memberOf).toEqual(['cn=team-a,ou=groups,dc=example,dc=org']);
+    expect(result.groups).toEqual([
+      'cn=team-a,ou=groups,dc=example,dc=org',
+      'cn=platform-eng,ou=groups,dc=example,dc=org',
+    ]);
+  });
+
+  it('should decode the objectGUID of Active Directory users', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'CN=John Doe,OU=Users,DC=example,DC=org',
+          uid: 'jdoe',
+          objectGUID: Buffer.from('33221100554477668899aabbccddeeff', 'hex'),
+        },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    );
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      config.searchBase,
+      expect.objectContaining({ explicitBufferAttributes: ['objectGUID'] }),
+    );
+    expect(result.uuid).toBe('00112233-4455-6677-8899-aabbccddeeff');
+  });
+
+  it('should prefer the entryUUID as the immutable id', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+          uid: 'jdoe',
+          entryUUID: '6FB0CE0E-9D2C-103D-8E5A-39C5F0D3A4B1',
+          ipaUniqueID: 'f1a6b2c4-0000-0000-0000-000000000000',
+        },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    );
+
+    expect(result.uuid).toBe('6fb0ce0e-9d2c-103d-8e5a-39c5f0d3a4b1');
+  });
+
+  it('should read the profile from the configured attribute map', async () => {
+    const photo = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+    config.attributeMap = {
+      uid: 'sAMAccountName',
+      displayName: '{{givenName}} {{sn}}',
+      email: 'userPrincipalName',
+      picture: 'thumbnailPhoto',
+      pictureMaxSize: 1024,
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'CN=John Doe,OU=Users,DC=example,DC=org',
+          sAMAccountName: 'jdoe',
+          givenName: 'John',
+          sn: 'Doe',
+          userPrincipalName: 'jdoe@example.org',
+          thumbnailPhoto: photo,
+        },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    );
+
+    expect(mockSearch).toHaveBeenCalledWith(
+      config.searchBase,
+      expect.objectContaining({
+        attributes: expect.arrayContaining([
+          'sAMAccountName',
+          'givenName',
+          'sn',
+          'userPrincipalName',
+          'thumbnailPhoto',
+        ]),
+        explicitBufferAttributes: ['objectGUID', 'thumbnailPhoto'],
+      }),
+    );
+    expect(result).toMatchObject({
+      uid: 'jdoe',
+      displayName: 'John Doe',
+      email: 'jdoe@example.org',
+      picture: `data:image/jpeg;base64,${photo.toString('base64')}`,
+    });
+  });
+
+  it('should read picture URLs from attributes returned as buffers', async () => {
+    config.attributeMap = { ...config.attributeMap, picture: 'labeledURI' };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+          uid: 'jdoe',
+          labeledURI: Buffer.from('https://example.org/jdoe.png Photo'),
+        },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      config,
+      mockLogger,
+    );
+
+    expect(result.picture).toBe('https://example.org/jdoe.png');
+  });
+
+  it('should take the uid from the entry rather than the typed username', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'JDOE',
+      'pass',
+      config,
+      mockLogger,
+    );
+    expect(result.uid).toBe('jdoe');
+
+    mockSearch.mockResolvedValue({
+      searchEntries: [{ dn: 'uid=jdoe,ou=users,dc=example,dc=org' }],
+    });
+    await expect(
+      authenticateWithLdap('jdoe', 'pass', config, mockLogger),
+    ).rejects.toThrow(
+      "The LDAP entry of user 'jdoe' has no value for the attribute map uid 'uid'",
+    );
+  });
+
   it('should warn when multiple users are found', async () => {
     mockBind.mockResolvedValue(undefined);
     mockSearch.mockResolvedValue({
@@ -155,7 +653,7 @@ describe('authenticateWithLdap', () => {
       ],
     });
 
-    await authenticateWithLdap('jdoe', 'password', defaultConfig, mockLogger);
+    await authenticateWithLdap('jdoe', 'password', config, mockLogger);
 
     expect(mockLogger.warn).toHaveBeenCalledWith(
       expect.stringContaining('Multiple users found'),
@@ -164,7 +662,7 @@ describe('authenticateWithLdap', () => {
 
   it('should work without service account bind (anonymous)', async () => {
     const anonConfig = {
-      ...defaultConfig,
+      ...config,
       bindDN: undefined,
       bindCredentials: undefined,
     };
@@ -182,7 +680,97 @@ describe('authenticateWithLdap', () => {
     expect(mockBind).toHaveBeenCalledWith(
       'uid=jdoe,ou=users,dc=example,dc=org',
       'pass',
+      passwordPolicyControl,
+    );
+  });
+
+  it('should bind directly with the DN made from the bind DN template', async () => {
+    const directConfig = {
+      ...config,
+      bindDN: undefined,
+      bindCredentials: undefined,
+      bindDNTemplate: 'uid={{username}},ou=users,dc=example,dc=org',
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=doe\\, john,ou=users,dc=example,dc=org', uid: 'doe, john' },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'doe, john',
+      'pass',
+      directConfig,
+      mockLogger,
+    );
+
+    expect(mockBind).toHaveBeenCalledTimes(1);
+    expect(mockBind).toHaveBeenCalledWith(
+      'uid=doe\\, john,ou=users,dc=example,dc=org',
+      'pass',
+      passwordPolicyControl,
+    );
+    expect(mockSearch).toHaveBeenCalledTimes(1);
+    expect(mockSearch).toHaveBeenCalledWith(
+      'uid=doe\\, john,ou=users,dc=example,dc=org',
+      expect.objectContaining({ scope: 'base' }),
+    );
+    expect(mockUnbind).toHaveBeenCalled();
+    expect(result.uid).toBe('doe, john');
+  });
+
+  it('should search for the entry of a user that bound with a UPN', async () => {
+    const directConfig = {
+      ...config,
+      bindDN: undefined,
+      bindCredentials: undefined,
+      bindDNTemplate: '{{username}}@corp.example.org',
+      searchFilter: '(sAMAccountName={{username}})',
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'CN=John Doe,OU=Users,DC=corp,DC=example,DC=org', uid: 'jdoe' },
+      ],
+    });
+
+    const result = await authenticateWithLdap(
+      'jdoe',
+      'pass',
+      directConfig,
+      mockLogger,
+    );
+
+    expect(mockBind).toHaveBeenCalledTimes(1);
+    expect(mockBind).toHaveBeenCalledWith(
+      'jdoe@corp.example.org',
+      'pass',
+      passwordPolicyControl,
     );
+    expect(mockSearch).toHaveBeenCalledWith(
+      'ou=users,dc=example,dc=org',
+      expect.objectContaining({
+        filter: '(sAMAccountName=jdoe)',
+        scope: 'sub',
+      }),
+    );
+    expect(result.dn).toBe('CN=John Doe,OU=Users,DC=corp,DC=example,DC=org');
+  });
+
+  it('should not read the entry if the direct bind fails', async () => {
+    const directConfig = {
+      ...config,
+      bindDN: undefined,
+      bindCredentials: undefined,
+      bindDNTemplate: 'uid={{username}},ou=users,dc=example,dc=org',
+    };
+    mockBind.mockRejectedValue(invalidCredentialsError());
+
+    await expect(
+      authenticateWithLdap('jdoe', 'wrong', directConfig, mockLogger),
+    ).rejects.toThrow("Invalid credentials for user 'jdoe'");
+    expect(mockSearch).not.toHaveBeenCalled();
   });
 
   it('should escape special LDAP filter characters in username', async () => {
@@ -193,7 +781,7 @@ describe('authenticateWithLdap', () => {
       ],
     });
 
-    await authenticateWithLdap('user*name', 'pass', defaultConfig, mockLogger);
+    await authenticateWithLdap('user*name', 'pass', config, mockLogger);
 
     expect(mockSearch).toHaveBeenCalledWith(
       'ou=users,dc=example,dc=org',
@@ -202,4 +790,358 @@ describe('authenticateWithLdap', () => {
       }),
     );
   });
+
+  it('should reuse the pooled service connection across logins', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await authenticateWithLdap('jdoe', 'pass', config, mockLogger);
+    await authenticateWithLdap('jdoe', 'pass', config, mockLogger);
+
+    // One pooled connection plus one connection per user bind
+    expect(MockClient).toHaveBeenCalledTimes(3);
+    expect(
+      mockBind.mock.calls.filter(
+        ([dn]) => dn === 'cn=service,dc=example,dc=org',
+      ),
+    ).toHaveLength(1);
+    // A search and a read after the bind per login
+    expect(mockSearch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should fail over to the next server on connection errors', async () => {
+    config = {
+      ...config,
+      url: ['ldaps://dc1.example.com:636', 'ldaps://dc2.example.com:636'],
+    };
+    mockBind
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED')) // dc1 down
+      .mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await authenticateWithLdap('jdoe', 'pass', config, mockLogger);
+
+    expect(MockClient).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ url: 'ldaps://dc1.example.com:636' }),
+    );
+    expect(MockClient).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ url: 'ldaps://dc2.example.com:636' }),
+    );
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Failed to connect to LDAP server ldaps://dc1.example.com:636',
+      ),
+    );
+  });
+
+  it('should upgrade ldap:// connections with StartTLS before binding', async () => {
+    config = {
+      ...config,
+      url: 'ldap://ldap.example.com:389',
+      tls: { ...config.tls, startTls: true },
+    };
+    mockBind.mockResolvedValue(undefined);
+    mockStartTLS.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await authenticateWithLdap('jdoe', 'pass', config, mockLogger);
+
+    // Once for the pooled service connection, once for the user bind
+    expect(mockStartTLS).toHaveBeenCalledTimes(2);
+    expect(mockStartTLS).toHaveBeenCalledWith({ rejectUnauthorized: true });
+    expect(mockStartTLS.mock.invocationCallOrder[1]).toBeLessThan(
+      mockBind.mock.invocationCallOrder[1],
+    );
+  });
+
+  it('should not use StartTLS on ldaps:// connections', async () => {
+    config = { ...config, tls: { ...config.tls, startTls: true } };
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await authenticateWithLdap('jdoe', 'pass', config, mockLogger);
+
+    expect(mockStartTLS).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to bind over an unencrypted connection when TLS is required', async () => {
+    config = {
+      ...config,
+      url: 'ldap://ldap.example.com:389',
+      bindDN: undefined,
+      bindCredentials: undefined,
+      tls: { ...config.tls, required: true },
+    };
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'pass', config, mockLogger),
+    ).rejects.toThrow(
+      'Refusing to send credentials to ldap://ldap.example.com:389 over an unencrypted connection',
+    );
+    expect(mockBind).not.toHaveBeenCalled();
+  });
+
+  it('should pass the configured timeouts to the client', async () => {
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await authenticateWithLdap('jdoe', 'pass', config, mockLogger);
+
+    expect(MockClient).toHaveBeenCalledWith(
+      expect.objectContaining({ connectTimeout: 5000, timeout: 10000 }),
+    );
+  });
+
+  it('should report an unreachable directory as unavailable', async () => {
+    mockBind.mockRejectedValue(new Error('Connection timeout'));
+
+    await expect(
+      authenticateWithLdap('jdoe', 'pass', config, mockLogger),
+    ).rejects.toMatchObject({
+      name: 'ServiceUnavailableError',
+      message: expect.stringContaining(
+        'The LDAP directory is temporarily unavailable',
+      ),
+    });
+  });
+
+  it('should report a user bind timeout as unavailable', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('BindRequest: Operation timed out'));
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+
+    await expect(
+      authenticateWithLdap('jdoe', 'pass', config, mockLogger),
+    ).rejects.toMatchObject({ name: 'ServiceUnavailableError' });
+  });
+});
+
+describe('readLdapUser', () => {
+  let config: LdapClientConfig;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUnbind.mockResolvedValue(undefined);
+    mockBind.mockResolvedValue(undefined);
+    config = { ...defaultConfig };
+  });
+
+  it('should look the user up without binding as them', async () => {
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+          uid: 'jdoe',
+          memberOf: ['cn=developers,ou=groups,dc=example,dc=org'],
+        },
+      ],
+    });
+
+    const result = await readLdapUser('jdoe', config, mockLogger);
+
+    expect(mockBind).toHaveBeenCalledTimes(1);
+    expect(mockBind).toHaveBeenCalledWith(
+      'cn=service,dc=example,dc=org',
+      'service-password',
+      passwordPolicyControl,
+    );
+    expect(result).toMatchObject({
+      uid: 'jdoe',
+      memberOf: ['cn=developers,ou=groups,dc=example,dc=org'],
+    });
+  });
+
+  it('should reject disabled Active Directory accounts', async () => {
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        {
+          dn: 'CN=John Doe,OU=Users,DC=example,DC=org',
+          uid: 'jdoe',
+          userAccountControl: '514',
+        },
+      ],
+    });
+
+    await expect(readLdapUser('jdoe', config, mockLogger)).rejects.toThrow(
+      expect.objectContaining({ reason: 'accountDisabled' }),
+    );
+  });
+});
+
+describe('changeLdapPassword', () => {
+  let config: LdapClientConfig;
+
+  const userDN = 'uid=jdoe,ou=users,dc=example,dc=org';
+
+  function activeDirectoryError(data: string) {
+    return Object.assign(
+      new Error(
+        `80090308: LdapErr: DSID-0C09044E, comment: AcceptSecurityContext error, data ${data}, v4563`,
+      ),
+      { code: 49 },
+    );
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUnbind.mockResolvedValue(undefined);
+    mockExop.mockResolvedValue({});
+    mockModify.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({ searchEntries: [{ dn: userDN }] });
+    config = { ...defaultConfig };
+  });
+
+  it('should change an expired password on the service connection', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined) // service bind
+      .mockRejectedValueOnce(activeDirectoryError('532')); // user bind
+
+    await changeLdapPassword('jdoe', 'old', 'new', config, mockLogger);
+
+    expect(mockBind).toHaveBeenCalledTimes(2);
+    const [oid, value] = mockExop.mock.calls[0];
+    expect(oid).toBe('1.3.6.1.4.1.4203.1.11.1');
+    expect(value).toEqual(
+      Buffer.concat([
+        Buffer.from([0x30, 2 + userDN.length + 5 + 5]),
+        Buffer.from([0x80, userDN.length]),
+        Buffer.from(userDN),
+        Buffer.from([0x81, 3]),
+        Buffer.from('old'),
+        Buffer.from([0x82, 3]),
+        Buffer.from('new'),
+      ]),
+    );
+  });
+
+  it('should change a password expired according to the password policy control', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined) // service bind
+      .mockImplementationOnce(async (_dn, _password, control) => {
+        respondWithPasswordPolicy(control, [0x30, 0x03, 0x81, 0x01, 0x00]);
+        throw invalidCredentialsError();
+      });
+
+    await changeLdapPassword('jdoe', 'old', 'new', config, mockLogger);
+
+    expect(mockExop).toHaveBeenCalledWith(
+      '1.3.6.1.4.1.4203.1.11.1',
+      expect.any(Buffer),
+    );
+  });
+
+  it('should change the unicodePwd on the user connection if the user can bind', async () => {
+    mockBind.mockResolvedValue(undefined);
+    config.passwordChange = { enabled: true, method: 'unicodePwd' };
+
+    await changeLdapPassword('jdoe', 'old', 'new', config, mockLogger);
+
+    expect(mockModify).toHaveBeenCalledWith(userDN, [
+      {
+        operation: 'delete',
+        modification: {
+          type: 'unicodePwd',
+          values: [Buffer.from('"old"', 'utf16le')],
+        },
+      },
+      {
+        operation: 'add',
+        modification: {
+          type: 'unicodePwd',
+          values: [Buffer.from('"new"', 'utf16le')],
+        },
+      },
+    ]);
+    // The second bind is the user bind, the change is made on that client
+    expect(mockUnbind).toHaveBeenCalled();
+  });
+
+  it('should not change the password if the old one is wrong', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(activeDirectoryError('52e'));
+
+    await expect(
+      changeLdapPassword('jdoe', 'wrong', 'new', config, mockLogger),
+    ).rejects.toMatchObject({ reason: 'invalidCredentials' });
+    expect(mockExop).not.toHaveBeenCalled();
+  });
+
+  it('should report a new password rejected by the password policy', async () => {
+    mockBind
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(activeDirectoryError('773'));
+    mockExop.mockRejectedValue(
+      Object.assign(new Error('Password fails quality checking policy'), {
+        code: 19,
+      }),
+    );
+
+    await expect(
+      changeLdapPassword('jdoe', 'old', 'new', config, mockLogger),
+    ).rejects.toMatchObject({
+      name: 'LdapAuthError',
+      reason: 'passwordRejected',
+    });
+  });
+});
+
+describe('closeLdapConnections', () => {
+  beforeEach(async () => {
+    // Close the connections left by the other tests
+    await closeLdapConnections();
+    jest.clearAllMocks();
+    mockUnbind.mockResolvedValue(undefined);
+    mockBind.mockResolvedValue(undefined);
+    mockSearch.mockResolvedValue({
+      searchEntries: [
+        { dn: 'uid=jdoe,ou=users,dc=example,dc=org', uid: 'jdoe' },
+      ],
+    });
+  });
+
+  it('should unbind the pooled connections', async () => {
+    const config = { ...defaultConfig };
+    await readLdapUser('jdoe', config, mockLogger);
+    expect(mockUnbind).not.toHaveBeenCalled();
+
+    await closeLdapConnections();
+
+    expect(mockUnbind).toHaveBeenCalledTimes(1);
+
+    await readLdapUser('jdoe', config, mockLogger);
+    expect(MockClient).toHaveBeenCalledTimes(2);
+  });
 });
@@ -14,25 +14,68 @@
  * limitations under the License.
  */
 
-import { Client } from 'ldapts';
+import { Attribute, Change, Client, type Entry } from 'ldapts';
 import type { LoggerService } from '@backstage/backend-plugin-api';
+import {
+  NotAllowedError,
+  NotFoundError,
+  stringifyError,
+} from '@backstage/errors';
+import { checkLdapAccountStatus } from './accountStatus';
+import {
+  extractAllAttributes,
+  extractMappedAttribute,
+  extractPicture,
+  extractStringArrayAttribute,
+  extractUuid,
+  getUserSearchAttributes,
+} from './attributes';
+import { LdapConnectionPool } from './connectionPool';
+import { escapeLdapDnValue } from './dn';
+import { escapeLdapFilter } from './filter';
+import { expandGroups, searchMemberGroups } from './groups';
+import {
+  createLdapAuthError,
+  decodeBindError,
+  decodePasswordChangeError,
+  isConnectionError,
+  LdapAuthError,
+  toUnavailableError,
+} from './errors';
+import { PasswordPolicyControl } from './passwordPolicy';
+import { LdapServerSet } from './serverSet';
+import { createTlsOptions } from './tls';
 import type { LdapClientConfig, LdapUserInfo } from './types';
 
+/** RFC 3062 Password Modify extended operation */
+const PASSWORD_MODIFY_OID = '1.3.6.1.4.1.4203.1.11.1';
+
 /**
  * Authenticates a user against an LDAP directory.
  *
  * Flow:
- * 1. Bind with service account credentials (or anonymous bind)
+ * 1. Take a pooled connection bound with service account credentials
+ *    (or anonymous bind) to one of the configured servers
  * 2. Search for the user by username
- * 3. Re-bind with the found user's DN + submitted password
- * 4. Return user attributes
+ * 3. Bind with the found user's DN + submitted password on a new connection
+ * 4. Read the user's entry again, check that the account isn't disabled,
+ *    locked or expired, and extract user attributes
+ * 5. Search for the user's groups, if the directory has no memberOf
+ * 6. Resolve nested group memberships, if configured
+ *
+ * With a `bindDNTemplate` the user binds directly with the DN or UPN made
+ * from the template instead, and steps 2, 5 and 6 run on the user's own
+ * connection, so that no service account is needed.
  *
  * @param username - The username submitted by the user
  * @param password - The password submitted by the user
  * @param config - LDAP connection and search configuration
  * @param logger - Backstage logger service
  * @returns The authenticated user's LDAP information
- * @throws Error if authentication fails
+ * @throws ServiceUnavailableError if the directory can't be reached
+ * @throws LdapAuthError if the directory rejects the password or the account
+ *   status checks refuse the account
+ * @throws Error if the user can't be found
  *
  * @internal
  */
@@ -42,133 +85,586 @@ export async function authenticateWithLdap(
   config: LdapClientConfig,
   logger: LoggerService,
 ): Promise<LdapUserInfo> {
-  const baseClientOptions: ConstructorParameters<typeof Client>[0] = {
-    url: config.url,
-  };
-  if (config.url.startsWith('ldaps://')) {
-    baseClientOptions.tlsOptions = {
-      rejectUnauthorized: config.tls.rejectUnauthorized,
-    };
-  }
+  assertEncrypted(config);
 
-  const client = new Client(baseClientOptions);
+  const { servers, pool } = getConnections(config, logger);
 
-  try {
-    // Step 1: Bind with service account (or anonymous)
-    if (config.bindDN && config.bindCredentials) {
-      logger.info(`Binding to LDAP as service account: ${config.bindDN}`);
-      await client.bind(config.bindDN, config.bindCredentials);
+  if (config.bindDNTemplate) {
+    const bindDN = renderBindDN(config.bindDNTemplate, username);
+    const userClient = await bindUser(
+      servers,
+      config,
+      bindDN,
+      username,
+      password,
+      logger,
+    );
+    try {
+      const use: LdapConnectionUser = operation => operation(userClient);
+      const userEntry = isDN(config.bindDNTemplate)
+        ? await readUserEntry(bindDN, username, config, use)
+        : await findUser(username, config, logger, use);
+      await checkAccountStatus(userEntry, username, config, logger, use);
+      return await readUserInfo(userEntry, username, config, logger, use);
+    } finally {
+      await userClient.unbind().catch(() => {});
     }
+  }
+
+  // Step 1 + 2: Search for the user on a pooled service account connection
+  const use: LdapConnectionUser = operation => pool.use(operation);
+  const { dn } = await findUser(username, config, logger, use);
 
-    // Step 2: Search for the user
-    const filter = config.searchFilter.replace(
-      /\{\{username\}\}/g,
-      escapeLdapFilter(username),
+  // Step 3: Bind as the user on a separate connection to validate password
+  const userClient = await bindUser(
+    servers,
+    config,
+    dn,
+    username,
+    password,
+    logger,
+  );
+  await userClient.unbind().catch(() => {});
+
+  // Step 4: Read the entry again, since the bind may have changed its
+  // account status, e.g. cleared an expired lock or counted a grace login
+  const userEntry = await readUserEntry(dn, username, config, use);
+  await checkAccountStatus(userEntry, username, config, logger, use);
+  return readUserInfo(userEntry, username, config, logger, use);
+}
+
+/**
+ * Looks a signed in user up again without their password, to refresh their
+ * session. Fails if the user has been removed or disabled since.
+ *
+ * @throws ServiceUnavailableError if the directory can't be reached
+ * @throws LdapAuthError if the account status checks refuse the account
+ * @throws NotAllowedError if there is no service account to search with
+ * @throws NotFoundError if the user can't be found
+ *
+ * @internal
+ */
+export async function readLdapUser(
+  username: string,
+  config: LdapClientConfig,
+  logger: LoggerService,
+): Promise<LdapUserInfo> {
+  if (config.bindDNTemplate) {
+    throw new NotAllowedError(
+      'LDAP users can only be looked up again with a service account, not with a bindDNTemplate',
     );
+  }
+
+  const { pool } = getConnections(config, logger);
+  const use: LdapConnectionUser = operation => pool.use(operation);
+  const userEntry = await findUser(username, config, logger, use);
+  await checkAccountStatus(userEntry, username, config, logger, use);
+
+  return readUserInfo(userEntry, username, config, logger, use);
+}
 
+/**
+ * Runs an operation on a connection to the directory, either a pooled
+ * service account connection or the user's own connection.
+ */
+type LdapConnectionUser = <T>(
+  operation: (client: Client) => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Binds as the user on a new connection to validate the password.
+ */
+async function bindUser(
+  servers: LdapServerSet,
+  config: LdapClientConfig,
+  dn: string,
+  username: string,
+  password: string,
+  logger: LoggerService,
+): Promise<Client> {
+  try {
+    const userClient = await servers.run(url =>
+      openConnection(config, url, { dn, password }),
+    );
+    logger.info(`User '${username}' authenticated successfully`);
+    return userClient;
+  } catch (error) {
+    if (isConnectionError(error)) {
+      throw toUnavailableError(error);
+    }
+    const authError = decodeBindError(error, username);
     logger.info(
-      `Searching for user in ${config.searchBase} with filter: ${filter}`,
+      `LDAP bind for '${username}' rejected (${
+        authError.reason
+      }): ${stringifyError(error)}`,
     );
+    throw authError;
+  }
+}
 
-    const { searchEntries } = await client.search(config.searchBase, {
-      filter,
-      attributes: [config.usernameAttribute, ...config.userAttributes],
-      scope: 'sub',
-    });
+/**
+ * Refuses accounts that the directory marks as disabled, locked or expired,
+ * or whose entry doesn't match the `accountStatus.filter`.
+ */
+async function checkAccountStatus(
+  userEntry: Entry,
+  username: string,
+  config: LdapClientConfig,
+  logger: LoggerService,
+  use: LdapConnectionUser,
+): Promise<void> {
+  const { checkers, filter } = config.accountStatus;
+  let status = checkLdapAccountStatus(userEntry, checkers);
 
+  if (!status && filter) {
+    const { searchEntries } = await use(client =>
+      client.search(userEntry.dn, {
+        scope: 'base',
+        filter,
+        attributes: ['1.1'],
+      }),
+    ).catch(error => {
+      throw toUnavailableError(error);
+    });
     if (searchEntries.length === 0) {
-      throw new Error(`User '${username}' not found in LDAP directory`);
+      status = 'accountDisabled';
     }
+  }
 
-    if (searchEntries.length > 1) {
-      logger.warn(`Multiple users found for '${username}', using first result`);
-    }
+  if (status) {
+    logger.info(`LDAP account of '${username}' refused (${status})`);
+    throw createLdapAuthError(status);
+  }
+}
+
+/**
+ * Extracts the attributes of an authenticated user and looks up their
+ * groups.
+ */
+async function readUserInfo(
+  userEntry: Entry,
+  username: string,
+  config: LdapClientConfig,
+  logger: LoggerService,
+  use: LdapConnectionUser,
+): Promise<LdapUserInfo> {
+  // Step 4: Extract user attributes
+  // The uid is always taken from the entry rather than the typed username,
+  // so that it is stable for catalog matching
+  const { attributeMap } = config;
+  const uid = extractMappedAttribute(userEntry, attributeMap.uid);
+  if (!uid) {
+    throw new Error(
+      `The LDAP entry of user '${username}' has no value for the attribute map uid '${attributeMap.uid}'`,
+    );
+  }
+
+  const userInfo: LdapUserInfo = {
+    dn: userEntry.dn,
+    uid,
+    displayName: extractMappedAttribute(userEntry, attributeMap.displayName),
+    email: extractMappedAttribute(userEntry, attributeMap.email),
+    picture: attributeMap.picture
+      ? extractPicture(
+          userEntry,
+          attributeMap.picture,
+          attributeMap.pictureMaxSize,
+          logger,
+        )
+      : undefined,
+    uuid: extractUuid(userEntry),
+    memberOf: extractStringArrayAttribute(userEntry, 'memberOf'),
+    attributes: extractAllAttributes(
+      userEntry,
+      config.userAttributes,
+      config.binaryAttributes,
+    ),
+  };
+
+  // Step 5: Search for the groups listing the user as a member
+  if (config.groups.filter) {
+    const groups = await use(client =>
+      searchMemberGroups(client, userInfo, config),
+    ).catch(error => {
+      throw toUnavailableError(error);
+    });
+    userInfo.memberOf = Array.from(
+      new Set([...(userInfo.memberOf ?? []), ...groups]),
+    );
+  }
+
+  // Step 6: Resolve nested group memberships
+  if (config.groups.expansion !== 'none') {
+    const memberOf = userInfo.memberOf ?? [];
+    userInfo.groups = await use(client =>
+      expandGroups(client, userEntry.dn, memberOf, config, logger),
+    ).catch(error => {
+      throw toUnavailableError(error);
+    });
+  }
+
+  return userInfo;
+}
 
-    const userEntry = searchEntries[0];
-    const userDN = userEntry.dn;
+/**
+ * Changes the password of a user, which is how users with an expired
+ * password get back in. The change is made on a connection bound as the
+ * user if the directory still accepts the old password, or else on a pooled
+ * service account connection, where the server verifies the old password as
+ * part of the change.
+ *
+ * @throws ServiceUnavailableError if the directory can't be reached
+ * @throws LdapAuthError if the old password is wrong or the new one is rejected
+ *
+ * @internal
+ */
+export async function changeLdapPassword(
+  username: string,
+  oldPassword: string,
+  newPassword: string,
+  config: LdapClientConfig,
+  logger: LoggerService,
+): Promise<void> {
+  assertEncrypted(config);
 
-    // Step 3: Unbind service account, re-bind as the user to validate password
-    await client.unbind();
+  const { servers, pool } = getConnections(config, logger);
+  const userEntry = await findUser(username, config, logger, operation =>
+    pool.use(operation),
+  );
+  const userDN = userEntry.dn;
 
-    const userClient = new Client(baseClientOptions);
+  const change = (client: Client) =>
+    config.passwordChange.method === 'unicodePwd'
+      ? client.modify(userDN, [
+          new Change({
+            operation: 'delete',
+            modification: new Attribute({
+              type: 'unicodePwd',
+              values: [encodeUnicodePwd(oldPassword)],
+            }),
+          }),
+          new Change({
+            operation: 'add',
+            modification: new Attribute({
+              type: 'unicodePwd',
+              values: [encodeUnicodePwd(newPassword)],
+            }),
+          }),
+        ])
+      : client
+          .exop(
+            PASSWORD_MODIFY_OID,
+            encodePasswordModifyRequest(userDN, oldPassword, newPassword),
+          )
+          .then(() => {});
 
+  try {
+    let userClient: Client | undefined;
     try {
-      await userClient.bind(userDN, password);
-      logger.info(`User '${username}' authenticated successfully`);
+      userClient = await servers.run(url =>
+        openConnection(config, url, { dn: userDN, password: oldPassword }),
+      );
     } catch (error) {
-      throw new Error(`Invalid credentials for user '${username}'`);
-    } finally {
-      await userClient.unbind().catch(() => {});
+      if (isConnectionError(error)) {
+        throw error;
+      }
+      const authError = decodeBindError(error, username);
+      if (
+        authError.reason !== 'passwordExpired' &&
+        authError.reason !== 'passwordMustChange'
+      ) {
+        throw authError;
+      }
     }
 
-    // Step 4: Extract user attributes
-    const uid = extractStringAttribute(userEntry, config.usernameAttribute);
+    if (userClient) {
+      await change(userClient).finally(() =>
+        userClient!.unbind().catch(() => {}),
+      );
+    } else {
+      await pool.use(change);
+    }
+  } catch (error) {
+    if (error instanceof LdapAuthError) {
+      throw error;
+    }
+    if (isConnectionError(error)) {
+      throw toUnavailableError(error);
+    }
+    logger.info(
+      `LDAP password change for '${username}' rejected: ${stringifyError(
+        error,
+      )}`,
+    );
+    throw decodePasswordChangeError(error, username);
+  }
 
-    const userInfo: LdapUserInfo = {
-      dn: userDN,
-      uid: uid ?? username,
-      displayName: extractStringAttribute(userEntry, 'displayName'),
-      email: extractStringAttribute(userEntry, 'mail'),
-      memberOf: extractStringArrayAttribute(userEntry, 'memberOf'),
-      attributes: extractAllAttributes(userEntry, config.userAttributes),
-    };
+  logger.info(`Password of user '${username}' changed`);
+}
 
-    return userInfo;
-  } finally {
-    await client.unbind().catch(() => {});
+/**
+ * Refuses to send credentials over unencrypted connections if
+ * `tls.required` is set.
+ */
+function assertEncrypted(config: LdapClientConfig) {
+  if (config.tls.required) {
+    const unencrypted = [config.url]
+      .flat()
+      .filter(url => !url.startsWith('ldaps://') && !config.tls.startTls);
+    if (unencrypted.length > 0) {
+      throw new NotAllowedError(
+        `Refusing to send credentials to ${unencrypted.join(
+          ', ',
+        )} over an unencrypted connection`,
+      );
+    }
   }
 }
 
 /**
- * Escape special characters in an LDAP filter value
- * per RFC 4515.
+ * Searches for the entry of a user with the configured search filter.
  */
-function escapeLdapFilter(input: string): string {
-  return input.replace(/[\\*()"\0/]/g, char => {
-    return `\\${char.charCodeAt(0).toString(16).padStart(2, '0')}`;
+async function findUser(
+  username: string,
+  config: LdapClientConfig,
+  logger: LoggerService,
+  use: LdapConnectionUser,
+): Promise<Entry> {
+  const filter = config.searchFilter.replace(
+    /\{\{username\}\}/g,
+    escapeLdapFilter(username),
+  );
+
+  logger.info(
+    `Searching for user in ${config.searchBase} with filter: ${filter}`,
+  );
+
+  const { searchEntries } = await use(client =>
+    client.search(config.searchBase, {
+      filter,
+      ...getUserSearchAttributes(config),
+      scope: 'sub',
+    }),
+  ).catch(error => {
+    throw toUnavailableError(error);
   });
-}
 
-function extractStringAttribute(
-  entry: Record<string, unknown>,
-  attribute: string,
-): string | undefined {
-  const value = entry[attribute];
-  if (typeof value === 'string') {
-    return value;
+  if (searchEntries.length === 0) {
+    throw new NotFoundError(`User '${username}' not found in LDAP directory`);
   }
-  if (Array.isArray(value) && typeof value[0] === 'string') {
-    return value[0];
+
+  if (searchEntries.length > 1) {
+    logger.warn(`Multiple users found for '${username}', using first result`);
   }
-  return undefined;
+
+  return searchEntries[0];
 }
 
-function extractStringArrayAttribute(
-  entry: Record<string, unknown>,
-  attribute: string,
-): string[] | undefined {
-  const value = entry[attribute];
-  if (Array.isArray(value)) {
-    return value.filter((v): v is string => typeof v === 'string');
+/**
+ * Reads the entry of a user that bound with their DN.
+ */
+async function readUserEntry(
+  dn: string,
+  username: string,
+  config: LdapClientConfig,
+  use: LdapConnectionUser,
+): Promise<Entry> {
+  const { searchEntries } = await use(client =>
+    client.search(dn, {
+      filter: '(objectClass=*)',
+      ...getUserSearchAttributes(config),
+      scope: 'base',
+    }),
+  ).catch(error => {
+    throw toUnavailableError(error);
+  });
+
+  if (searchEntries.length === 0) {
+    throw new NotFoundError(`User '${username}' not found in LDAP directory`);
   }
-  if (typeof value === 'string') {
-    return [value];
+
+  return searchEntries[0];
+}
+
+/**
+ * Makes the bind DN or UPN of a user from the `bindDNTemplate`. The username
+ * is escaped as a DN attribute value if the template is a DN.
+ */
+function renderBindDN(template: string, username: string): string {
+  const value = isDN(template) ? escapeLdapDnValue(username) : username;
+  return template.replace(/\{\{username\}\}/g, () => value);
+}
+
+function isDN(template: string): boolean {
+  return template.includes('=');
+}
+
+interface LdapConnections {
+  servers: LdapServerSet;
+  pool: LdapConnectionPool;
+}
+
+const connectionsByConfig = new Map<LdapClientConfig, LdapConnections>();
+
+/**
+ * Returns the server set and connection pool for an environment config,
+ * creating them on first use. They are kept until
+ * {@link closeLdapConnections} is called.
+ */
+function getConnections(
+  config: LdapClientConfig,
+  logger: LoggerService,
+): LdapConnections {
+  let connections = connectionsByConfig.get(config);
+  if (!connections) {
+    const servers = new LdapServerSet({
+      urls: typeof config.url === 'string' ? [config.url] : config.url,
+      strategy: config.servers.strategy,
+      maxFailures: config.servers.maxFailures,
+      cooldown: config.servers.cooldown,
+      probe: async url => {
+        const client = await openConnection(config, url);
+        await client.unbind().catch(() => {});
+      },
+      logger,
+    });
+
+    const serviceAccount =
+      config.bindDN && config.bindCredentials
+        ? { dn: config.bindDN, password: config.bindCredentials }
+        : undefined;
+
+    const pool = new LdapConnectionPool({
+      createConnection: () =>
+        servers.run(url => openConnection(config, url, serviceAccount)),
+      maxSize: config.pool.maxSize,
+      idleTimeout: config.pool.idleTimeout,
+      keepAliveInterval: config.pool.keepAliveInterval,
+      logger,
+    });
+
+    connections = { servers, pool };
+    connectionsByConfig.set(config, connections);
   }
-  return undefined;
+  return connections;
+}
+
+/**
+ * Closes the pooled connections and stops the health checks of every
+ * directory connected to so far, for the shutdown of the backend.
+ *
+ * @internal
+ */
+export async function closeLdapConnections(): Promise<void> {
+  const connections = [...connectionsByConfig.values()];
+  connectionsByConfig.clear();
+  await Promise.all(
+    connections.map(({ servers, pool }) => {
+      servers.close();
+      return pool.close();
+    }),
+  );
 }
 
-function extractAllAttributes(
-  entry: Record<string, unknown>,
-  attributes: string[],
-): Record<string, string | string[] | undefined> {
-  const result: Record<string, string | string[] | undefined> = {};
-  for (const attr of attributes) {
-    const value = entry[attr];
-    if (typeof value === 'string') {
-      result[attr] = value;
-    } else if (Array.isArray(value)) {
-      result[attr] = value.filter((v): v is string => typeof v === 'string');
+/**
+ * Opens a connection to one LDAP server, upgrades it with StartTLS if
+ * configured, and binds with the given credentials. Without credentials the
+ * root DSE is read instead, so that an unreachable server fails here rather
+ * than on first use.
+ *
+ * Binds ask for the password policy control. The server's answer is attached
+ * to the bind error as `controls`, and a bind that succeeds with a password
+ * policy error, such as a password that must be changed after a reset, fails
+ * as well since the server only allows the password change on it.
+ */
+async function openConnection(
+  config: LdapClientConfig,
+  url: string,
+  credentials?: { dn: string; password: string },
+): Promise<Client> {
+  const ldaps = url.startsWith('ldaps://');
+  const startTls = !ldaps && config.tls.startTls;
+
+  const tlsOptions = createTlsOptions(config.tls);
+  const clientOptions: ConstructorParameters<typeof Client>[0] = {
+    url,
+    connectTimeout: config.timeouts.connect,
+    timeout: config.timeouts.operation,
+  };
+  if (ldaps) {
+    clientOptions.tlsOptions = tlsOptions;
+  }
+
+  const client = new Client(clientOptions);
+  try {
+    if (startTls) {
+      await client.startTLS(tlsOptions);
+    }
+    if (credentials) {
+      const passwordPolicy = new PasswordPolicyControl();
+      await client
+        .bind(credentials.dn, credentials.password, passwordPolicy)
+        .catch(error => {
+          throw Object.assign(error, { controls: [passwordPolicy] });
+        });
+      if (passwordPolicy.error !== undefined) {
+        throw Object.assign(
+          new Error(
+            `Bind succeeded with password policy error ${passwordPolicy.error}`,
+          ),
+          { controls: [passwordPolicy] },
+        );
+      }
+    } else {
+      await client.search('', {
+        scope: 'base',
+        filter: '(objectClass=*)',
+        attributes: ['1.1'],
+      });
     }
+    return client;
+  } catch (error) {
+    await client.unbind().catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Encodes the PasswdModifyRequestValue of RFC 3062, a sequence of the
+ * context tagged userIdentity, oldPasswd and newPasswd octet strings.
+ */
+function encodePasswordModifyRequest(
+  userIdentity: string,
+  oldPassword: string,
+  newPassword: string,
+): Buffer {
+  return encodeBer(
+    0x30,
+    Buffer.concat([
+      encodeBer(0x80, Buffer.from(userIdentity, 'utf8')),
+      encodeBer(0x81, Buffer.from(oldPassword, 'utf8')),
+      encodeBer(0x82, Buffer.from(newPassword, 'utf8')),
+    ]),
+  );
+}
+
+function encodeBer(tag: number, content: Buffer): Buffer {
+  if (content.length < 0x80) {
+    return Buffer.concat([Buffer.from([tag, content.length]), content]);
   }
-  return result;
+  const length = [];
+  for (let n = content.length; n > 0; n = Math.floor(n / 0x100)) {
+    length.unshift(n % 0x100);
+  }
+  return Buffer.concat([
+    Buffer.from([tag, 0x80 | length.length, ...length]),
+    content,
+  ]);
+}
+
+/**
+ * Active Directory expects unicodePwd as the quoted password in UTF-16LE.
+ */
+function encodeUnicodePwd(password: string): Buffer {
+  return Buffer.from(`"${password}"`, 'utf16le');
 }
@@ -14,7 +14,32 @@
  * limitations under the License.
  */
 
-import { authModuleLdapProvider } from './module';
+import { jest, describe, it, expect, beforeAll } from '@jest/globals';
+import { createBackendModule } from '@backstage/backend-plugin-api';
+import { startTestBackend } from '@backstage/backend-test-utils';
+import {
+  authProvidersExtensionPoint,
+  createSignInResolverFactory,
+} from '@backstage/plugin-auth-node';
+import { ldapAuthExtensionPoint } from './extensions';
+import type { authModuleLdapProvider as ModuleFeature } from './module';
+
+const mockCreateLdapProviderRouteHandlers = jest.fn<(...args: any[]) => any>();
+const mockCloseLdapConnections = jest.fn<() => Promise<void>>();
+
+jest.unstable_mockModule('./provider', () => ({
+  createLdapProviderRouteHandlers: mockCreateLdapProviderRouteHandlers,
+}));
+jest.unstable_mockModule('./ldapClient', () => ({
+  closeLdapConnections: mockCloseLdapConnections,
+}));
+
+let authModuleLdapProvider: typeof ModuleFeature;
+
+beforeAll(async () => {
+  const mod = await import('./module');
+  authModuleLdapProvider = mod.authModuleLdapProvider;
+});
 
 describe('authModuleLdapProvider', () => {
   it('should be defined', () => {
@@ -27,4 +52,110 @@ describe('authModuleLdapProvider', () => {
       $$type: '@backstage/BackendFeature',
     });
   });
+
+  it('should apply resolvers, profile transform and account status checks from the extension point', async () => {
+    const providerFactory = jest.fn();
+    mockCreateLdapProviderRouteHandlers.mockReturnValue(providerFactory);
+    const registerProvider = jest.fn();
+
+    const customResolver = createSignInResolverFactory({
+      create() {
+        return async (_info, ctx) =>
+          ctx.signInWithCatalogUser({ entityRef: { name: 'custom' } });
+      },
+    });
+    const profileTransform = jest.fn<any>();
+    const employeeStatus = {
+      attributes: ['employeeStatus'],
+      check: () => undefined,
+    };
+
+    await startTestBackend({
+      extensionPoints: [[authProvidersExtensionPoint, { registerProvider }]],
+      features: [
+        authModuleLdapProvider,
+        createBackendModule({
+          pluginId: 'auth',
+          moduleId: 'ldap-customization',
+          register(reg) {
+            reg.registerInit({
+              deps: { ldap: ldapAuthExtensionPoint },
+              async init({ ldap }) {
+                ldap.addSignInResolverFactories({ customResolver });
+                ldap.setProfileTransform(profileTransform);
+                ldap.addAccountStatusCheckers({ employeeStatus });
+              },
+            });
+          },
+        }),
+      ],
+    });
+
+    expect(mockCreateLdapProviderRouteHandlers).toHaveBeenCalledWith({
+      signInResolverFactories: expect.objectContaining({
+        usernameMatchingUserEntityName: expect.any(Function),
+        emailMatchingUserEntityAnnotation: expect.any(Function),
+        customResolver,
+      }),
+      profileTransform,
+      accountStatusCheckers: { employeeStatus },
+      cache: expect.any(Object),
+      auditor: expect.any(Object),
+    });
+    expect(registerProvider).toHaveBeenCalledWith({
+      providerId: 'ldap',
+      factory: expect.any(Function),
+    });
+  });
+
+  it('should close the LDAP connections on shutdown', async () => {
+    mockCreateLdapProviderRouteHandlers.mockReturnValue(() => ({}));
+    mockCloseLdapConnections.mockResolvedValue(undefined);
+
+    const backend = await startTestBackend({
+      extensionPoints: [
+        [authProvidersExtensionPoint, { registerProvider: jest.fn() }],
+      ],
+      features: [authModuleLdapProvider],
+    });
+    expect(mockCloseLdapConnections).not.toHaveBeenCalled();
+
+    await backend.stop();
+
+    expect(mockCloseLdapConnections).toHaveBeenCalled();
+  });
+
+  it('should serve the password change route of the provider', async () => {
+    const changePassword = jest.fn(async (req: any, res: any) => {
+      res.status(200).json({ received: req.body });
+    });
+    mockCreateLdapProviderRouteHandlers.mockReturnValue(() => ({
+      changePassword,
+    }));
+    const registerProvider = jest.fn<(options: any) => void>();
+
+    const { server } = await startTestBackend({
+      extensionPoints: [[authProvidersExtensionPoint, { registerProvider }]],
+      features: [authModuleLdapProvider],
+    });
+    const url = `http://localhost:${server.port()}/api/auth/ldap/password`;
+    const body = { username: 'jdoe', password: 'old', newPassword: 'new' };
+
+    const before = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    expect(before.status).toBe(404);
+
+    registerProvider.mock.calls[0][0].factory({});
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: body });
+  });
 });
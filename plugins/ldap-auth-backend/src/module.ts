@@ -14,10 +14,28 @@
  * limitations under the License.
  */
 
-import { createBackendModule } from '@backstage/backend-plugin-api';
-import { authProvidersExtensionPoint } from '@backstage/plugin-auth-node';
-import { createLdapProviderFactory } from './provider';
+import {
+  coreServices,
+  createBackendModule,
+} from '@backstage/backend-plugin-api';
+import {
+  authProvidersExtensionPoint,
+  type SignInResolverFactory,
+} from '@backstage/plugin-auth-node';
+import { NotFoundError } from '@backstage/errors';
+import express from 'express';
+import { ldapAuthExtensionPoint } from './extensions';
+import { closeLdapConnections } from './ldapClient';
+import {
+  createLdapProviderRouteHandlers,
+  type LdapProviderRouteHandlers,
+} from './provider';
 import { ldapSignInResolvers } from './resolvers';
+import type {
+  LdapAccountStatusChecker,
+  LdapAuthResult,
+  LdapProfileTransform,
+} from './types';
 
 /**
  * Backend module that registers the LDAP authentication provider.
@@ -33,17 +51,73 @@ export const authModuleLdapProvider = createBackendModule({
   pluginId: 'auth',
   moduleId: 'ldap-provider',
   register(reg) {
+    const signInResolverFactories: {
+      [name in string]: SignInResolverFactory<LdapAuthResult>;
+    } = { ...ldapSignInResolvers };
+    let profileTransform: LdapProfileTransform | undefined;
+    const accountStatusCheckers: {
+      [name in string]: LdapAccountStatusChecker;
+    } = {};
+
+    reg.registerExtensionPoint(ldapAuthExtensionPoint, {
+      addSignInResolverFactories(factories) {
+        Object.assign(signInResolverFactories, factories);
+      },
+      setProfileTransform(transform) {
+        if (profileTransform) {
+          throw new Error('The LDAP profile transform has already been set');
+        }
+        profileTransform = transform;
+      },
+      addAccountStatusCheckers(checkers) {
+        Object.assign(accountStatusCheckers, checkers);
+      },
+    });
+
     reg.registerInit({
       deps: {
         providers: authProvidersExtensionPoint,
+        cache: coreServices.cache,
+        auditor: coreServices.auditor,
+        httpRouter: coreServices.httpRouter,
+        lifecycle: coreServices.lifecycle,
       },
-      async init({ providers }) {
+      async init({ providers, cache, auditor, httpRouter, lifecycle }) {
+        const factory = createLdapProviderRouteHandlers({
+          signInResolverFactories,
+          profileTransform,
+          accountStatusCheckers,
+          cache,
+          auditor,
+        });
+        let handlers: LdapProviderRouteHandlers | undefined;
         providers.registerProvider({
           providerId: 'ldap',
-          factory: createLdapProviderFactory({
-            signInResolverFactories: { ...ldapSignInResolvers },
-          }),
+          factory: options => {
+            handlers = factory(options);
+            return handlers;
+          },
+        });
+
+        // The auth plugin only mounts the standard provider routes, so the
+        // password change route is added to its router here. Modules are
+        // initialized before their plugin, so this route takes precedence.
+        const router = express.Router();
+        router.post('/ldap/password', express.json(), (req, res, next) => {
+          if (!handlers) {
+            next(new NotFoundError('The LDAP auth provider is not set up'));
+            return;
+          }
+          handlers.changePassword(req, res).catch(next);
         });
+        httpRouter.use(router);
+        httpRouter.addAuthPolicy({
+          path: '/ldap/password',
+          allow: 'unauthenticated',
+        });
+
+        // Unbind the pooled service account connections on shutdown
+        lifecycle.addShutdownHook(() => closeLdapConnections());
       },
     });
   },
@@ -0,0 +1,114 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { BindRequest, BindResponse, MessageParser } from 'ldapts';
+import { PasswordPolicyControl } from './passwordPolicy';
+
+function ber(tag: number, ...contents: Buffer[]) {
+  const content = Buffer.concat(contents);
+  return Buffer.concat([Buffer.from([tag, content.length]), content]);
+}
+
+/**
+ * Parses a failed BindResponse carrying the given password policy response
+ * value the way ldapts parses the response to a bind with the control.
+ */
+function parseBindResponse(control: PasswordPolicyControl, value?: Buffer) {
+  const controls = value
+    ? ber(
+        0xa0,
+        ber(
+          0x30,
+          ber(0x04, Buffer.from(PasswordPolicyControl.type)),
+          ber(0x04, value),
+        ),
+      )
+    : Buffer.alloc(0);
+  const response = ber(
+    0x30,
+    ber(0x02, Buffer.from([1])),
+    ber(
+      0x61,
+      ber(0x0a, Buffer.from([49])),
+      ber(0x04, Buffer.alloc(0)),
+      ber(0x04, Buffer.alloc(0)),
+    ),
+    controls,
+  );
+
+  const request = new BindRequest({
+    messageId: 1,
+    dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+    password: 'secret',
+    controls: [control],
+  });
+  const messages: unknown[] = [];
+  const parser = new MessageParser();
+  parser.on('message', message => messages.push(message));
+  parser.read(response, new Map([['1', { message: request }]]) as any);
+  return messages[0] as BindResponse;
+}
+
+describe('PasswordPolicyControl', () => {
+  it('should read the error of the response to a bind', () => {
+    const control = new PasswordPolicyControl();
+
+    const response = parseBindResponse(
+      control,
+      ber(0x30, ber(0x81, Buffer.from([0]))),
+    );
+
+    expect(response.status).toBe(49);
+    expect(response.controls).toEqual([control]);
+    expect(control.error).toBe(0);
+  });
+
+  it('should skip the warning in front of the error', () => {
+    const control = new PasswordPolicyControl();
+
+    parseBindResponse(
+      control,
+      ber(
+        0x30,
+        ber(0xa0, ber(0x81, Buffer.from([2]))),
+        ber(0x81, Buffer.from([1])),
+      ),
+    );
+
+    expect(control.error).toBe(1);
+  });
+
+  it('should leave the error unset without an error in the response', () => {
+    const control = new PasswordPolicyControl();
+
+    parseBindResponse(
+      control,
+      ber(0x30, ber(0xa0, ber(0x80, Buffer.from([0x0e, 0x10])))),
+    );
+
+    expect(control.error).toBeUndefined();
+  });
+
+  it('should leave the error unset without the control in the response', () => {
+    const control = new PasswordPolicyControl();
+
+    const response = parseBindResponse(control);
+
+    expect(response.controls).toEqual([]);
+    expect(control.error).toBeUndefined();
+  });
+});
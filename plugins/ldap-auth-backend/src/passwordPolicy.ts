@@ -0,0 +1,112 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Control } from 'ldapts';
+
+type BerReader = Parameters<Control['parse']>[0];
+
+/**
+ * Errors of the password policy response control, see
+ * draft-behera-ldap-password-policy.
+ *
+ * @internal
+ */
+export const PASSWORD_POLICY_ERRORS = {
+  passwordExpired: 0,
+  accountLocked: 1,
+  changeAfterReset: 2,
+  passwordModNotAllowed: 3,
+  mustSupplyOldPassword: 4,
+  insufficientPasswordQuality: 5,
+  passwordTooShort: 6,
+  passwordTooYoung: 7,
+  passwordInHistory: 8,
+} as const;
+
+/**
+ * The password policy control of draft-behera-ldap-password-policy, as sent
+ * by OpenLDAP's ppolicy overlay and other servers implementing the draft.
+ *
+ * Sent with a bind, it asks the server to report why the bind was refused.
+ * ldapts parses response controls it doesn't know into the request control
+ * of the same type, so after the bind the control holds the error of the
+ * response, if any.
+ *
+ * @internal
+ */
+export class PasswordPolicyControl extends Control {
+  static readonly type = '1.3.6.1.4.1.42.2.27.8.5.1';
+
+  /** The error reported by the server, one of {@link PASSWORD_POLICY_ERRORS} */
+  error?: number;
+
+  constructor() {
+    super(PasswordPolicyControl.type);
+  }
+
+  protected parseControl(reader: BerReader): void {
+    this.error = decodePasswordPolicyError(reader.buffer);
+  }
+}
+
+/**
+ * Reads the error out of a PasswordPolicyResponseValue, a sequence of an
+ * optional context tagged warning and an optional `[1]` enumerated error.
+ */
+function decodePasswordPolicyError(value: Buffer): number | undefined {
+  const sequence = readBer(value, 0);
+  if (!sequence || sequence.tag !== 0x30) {
+    return undefined;
+  }
+  let offset = sequence.start;
+  while (offset < sequence.end) {
+    const element = readBer(value, offset);
+    if (!element) {
+      return undefined;
+    }
+    const length = element.end - element.start;
+    if (element.tag === 0x81 && length > 0 && length <= 6) {
+      return value.readUIntBE(element.start, length);
+    }
+    offset = element.end;
+  }
+  return undefined;
+}
+
+function readBer(
+  buffer: Buffer,
+  offset: number,
+): { tag: number; start: number; end: number } | undefined {
+  if (offset + 2 > buffer.length) {
+    return undefined;
+  }
+  const tag = buffer[offset];
+  let length = buffer[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    if (bytes === 0 || bytes > 4 || start + bytes > buffer.length) {
+      return undefined;
+    }
+    length = buffer.readUIntBE(start, bytes);
+    start += bytes;
+  }
+  const end = start + length;
+  if (end > buffer.length) {
+    return undefined;
+  }
+  return { tag, start, end };
+}
@@ -22,13 +22,22 @@ import {
   beforeAll,
   beforeEach,
 } from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import { NotFoundError, ServiceUnavailableError } from '@backstage/errors';
 import type { createLdapProviderFactory as FactoryFn } from './provider';
+import { ldapSignInResolvers } from './resolvers';
+import { LdapAuthError } from './errors';
+import type { LdapProfileTransform } from './types';
 
 // Set up mocks before importing provider
 const mockAuthenticateWithLdap = jest.fn<(...args: any[]) => any>();
+const mockChangeLdapPassword = jest.fn<(...args: any[]) => any>();
+const mockReadLdapUser = jest.fn<(...args: any[]) => any>();
 
 jest.unstable_mockModule('./ldapClient', () => ({
   authenticateWithLdap: mockAuthenticateWithLdap,
+  changeLdapPassword: mockChangeLdapPassword,
+  readLdapUser: mockReadLdapUser,
 }));
 
 let createLdapProviderFactory: typeof FactoryFn;
@@ -38,28 +47,27 @@ beforeAll(async () => {
   createLdapProviderFactory = mod.createLdapProviderFactory;
 });
 
-const mockConfig = {
-  getString: jest.fn<(...args: any[]) => any>((key: string) => {
-    const values: Record<string, string> = {
-      url: 'ldaps://ldap.example.com:636',
-      searchBase: 'ou=users,dc=example,dc=org',
-    };
-    return values[key];
-  }),
-  getOptionalString: jest.fn<(...args: any[]) => any>((key: string) => {
-    const values: Record<string, string> = {
-      bindDN: 'cn=service,dc=example,dc=org',
-      bindCredentials: 'password',
-    };
-    return values[key] ?? undefined;
-  }),
-  getOptionalStringArray: jest.fn<(...args: any[]) => any>(() => [
-    'mail',
-    'displayName',
-    'memberOf',
-  ]),
-  getOptionalBoolean: jest.fn<(...args: any[]) => any>(() => true),
-} as any;
+const mockConfig = new ConfigReader({
+  url: 'ldaps://ldap.example.com:636',
+  bindDN: 'cn=service,dc=example,dc=org',
+  bindCredentials: 'password',
+  searchBase: 'ou=users,dc=example,dc=org',
+  userAttributes: ['mail', 'displayName', 'memberOf'],
+  signIn: {
+    resolvers: [{ resolver: 'usernameMatchingUserEntityName' }],
+  },
+  session: { secret: 'session-secret' },
+});
+
+function createToken(claims: Record<string, unknown>) {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `header.${payload}.signature`;
+}
+
+const backstageToken = createToken({
+  sub: 'user:default/jdoe',
+  ent: ['user:default/jdoe'],
+});
 
 const mockLogger = {
   info: jest.fn(),
@@ -70,45 +78,136 @@ const mockLogger = {
 } as any;
 
 const mockResolverContext = {
-  signInWithCatalogUser: jest.fn<(...args: any[]) => any>().mockResolvedValue({
-    token: 'backstage-token-123',
-    identity: {
-      type: 'user',
-      userEntityRef: 'user:default/jdoe',
-      ownershipEntityRefs: ['user:default/jdoe'],
-    },
-  }),
+  signInWithCatalogUser: jest.fn<(...args: any[]) => any>(),
 } as any;
 
+function createMockCache() {
+  const store = new Map<string, any>();
+  return {
+    get: jest.fn(async (key: string) => store.get(key)),
+    set: jest.fn(async (key: string, value: any) => {
+      store.set(key, value);
+    }),
+    delete: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    withOptions: jest.fn(),
+  } as any;
+}
+
+function createHandlers(
+  config: ConfigReader = mockConfig,
+  profileTransform?: LdapProfileTransform,
+  cache?: any,
+  auditor?: any,
+) {
+  const factory = createLdapProviderFactory({
+    signInResolverFactories: { ...ldapSignInResolvers },
+    profileTransform,
+    cache,
+    auditor,
+  });
+  return factory({
+    config,
+    logger: mockLogger,
+    resolverContext: mockResolverContext,
+    appUrl: 'http://localhost:3000',
+    providerId: 'ldap',
+    baseUrl: 'http://localhost:7007',
+    isOriginAllowed: () => true,
+  } as any);
+}
+
+const jdoeUserInfo = {
+  dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+  uid: 'jdoe',
+  displayName: 'John Doe',
+  email: 'jdoe@example.com',
+  memberOf: ['cn=devs,ou=groups,dc=example,dc=org'],
+  attributes: {},
+};
+
 describe('createLdapProviderFactory', () => {
   let handlers: any;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    const factory = createLdapProviderFactory({
-      signInResolverFactories: {},
-    });
-    handlers = factory({
-      config: mockConfig,
-      logger: mockLogger,
-      resolverContext: mockResolverContext,
-      appUrl: 'http://localhost:3000',
-      providerId: 'ldap',
-      baseUrl: 'http://localhost:7007',
-      isOriginAllowed: () => true,
-    } as any);
+    mockResolverContext.signInWithCatalogUser.mockResolvedValue({
+      token: backstageToken,
+    });
+    handlers = createHandlers();
+  });
+
+  it('should reject unencrypted servers when TLS is required', () => {
+    expect(() =>
+      createHandlers(
+        new ConfigReader({
+          url: ['ldaps://dc1.example.com:636', 'ldap://dc2.example.com:389'],
+          searchBase: 'ou=users,dc=example,dc=org',
+          tls: { required: true },
+        }),
+      ),
+    ).toThrow(
+      'LDAP tls.required is set but ldap://dc2.example.com:389 would be unencrypted',
+    );
+  });
+
+  it('should reject unknown binary attribute encodings', () => {
+    expect(() =>
+      createHandlers(
+        new ConfigReader({
+          url: 'ldaps://ldap.example.com:636',
+          searchBase: 'ou=users,dc=example,dc=org',
+          binaryAttributes: { objectSid: 'utf8' },
+        }),
+      ),
+    ).toThrow(
+      "Invalid encoding 'utf8' of binary attribute 'objectSid', must be one of 'base64', 'hex', 'guid', 'sid', 'buffer'",
+    );
+  });
+
+  it('should not combine the bind DN template with a service account', () => {
+    expect(() =>
+      createHandlers(
+        new ConfigReader({
+          url: 'ldaps://ldap.example.com:636',
+          searchBase: 'ou=users,dc=example,dc=org',
+          bindDN: 'cn=service,dc=example,dc=org',
+          bindDNTemplate: 'uid={{username}},ou=users,dc=example,dc=org',
+        }),
+      ),
+    ).toThrow('can not be combined with bindDN');
+  });
+
+  it('should not change passwords over unencrypted connections', () => {
+    expect(() =>
+      createHandlers(
+        new ConfigReader({
+          url: 'ldap://ldap.example.com:389',
+          searchBase: 'ou=users,dc=example,dc=org',
+          bindDN: 'cn=service,dc=example,dc=org',
+          passwordChange: { enabled: true },
+        }),
+      ),
+    ).toThrow(
+      'LDAP passwordChange sends passwords to the directory and can not be used with ldap://ldap.example.com:389 unencrypted',
+    );
+    expect(() =>
+      createHandlers(
+        new ConfigReader({
+          url: 'ldap://ldap.example.com:389',
+          searchBase: 'ou=users,dc=example,dc=org',
+          bindDN: 'cn=service,dc=example,dc=org',
+          tls: { startTls: true },
+          passwordChange: { enabled: true },
+        }),
+      ),
+    ).not.toThrow();
   });
 
   describe('frameHandler', () => {
     it('should authenticate and return backstage identity', async () => {
-      mockAuthenticateWithLdap.mockResolvedValue({
-        dn: 'uid=jdoe,ou=users,dc=example,dc=org',
-        uid: 'jdoe',
-        displayName: 'John Doe',
-        email: 'jdoe@example.com',
-        memberOf: ['cn=devs,ou=groups,dc=example,dc=org'],
-        attributes: {},
-      });
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
 
       const req = {
         method: 'POST',
@@ -117,6 +216,7 @@ describe('createLdapProviderFactory', () => {
       const res = {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
       } as any;
 
       await handlers.frameHandler(req, res);
@@ -134,17 +234,327 @@ describe('createLdapProviderFactory', () => {
       expect(res.json).toHaveBeenCalledWith(
         expect.objectContaining({
           backstageIdentity: expect.objectContaining({
-            token: 'backstage-token-123',
+            token: backstageToken,
+            identity: {
+              type: 'user',
+              userEntityRef: 'user:default/jdoe',
+              ownershipEntityRefs: ['user:default/jdoe'],
+            },
           }),
         }),
       );
     });
 
+    it('should route users to a directory by the realm of their username', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      handlers = createHandlers(
+        new ConfigReader({
+          directories: [
+            {
+              name: 'corp',
+              match: { prefixes: ['CORP\\'], suffixes: ['@corp.example.org'] },
+              url: 'ldaps://corp.example.org:636',
+              searchBase: 'dc=corp,dc=example,dc=org',
+            },
+            {
+              name: 'lab',
+              match: { suffixes: ['@lab.example.org'] },
+              url: 'ldaps://lab.example.org:636',
+              searchBase: 'dc=lab,dc=example,dc=org',
+            },
+          ],
+          signIn: mockConfig.get('signIn'),
+        }),
+      );
+
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+      await handlers.frameHandler(
+        {
+          method: 'POST',
+          body: { username: 'jdoe@Lab.example.org', password: 'pass' },
+        } as any,
+        res,
+      );
+      await handlers.frameHandler(
+        {
+          method: 'POST',
+          body: { username: 'corp\\jdoe', password: 'pass' },
+        } as any,
+        res,
+      );
+
+      expect(mockAuthenticateWithLdap).toHaveBeenNthCalledWith(
+        1,
+        'jdoe',
+        'pass',
+        expect.objectContaining({ searchBase: 'dc=lab,dc=example,dc=org' }),
+        mockLogger,
+      );
+      expect(mockAuthenticateWithLdap).toHaveBeenNthCalledWith(
+        2,
+        'jdoe',
+        'pass',
+        expect.objectContaining({ searchBase: 'dc=corp,dc=example,dc=org' }),
+        mockLogger,
+      );
+      expect(res.json).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          providerInfo: expect.objectContaining({ directory: 'corp' }),
+        }),
+      );
+    });
+
+    it('should try each directory in order if no realm matches', async () => {
+      mockAuthenticateWithLdap
+        .mockRejectedValueOnce(
+          new NotFoundError("User 'jdoe' not found in LDAP directory"),
+        )
+        .mockResolvedValueOnce(jdoeUserInfo);
+      handlers = createHandlers(
+        new ConfigReader({
+          directories: [
+            {
+              name: 'corp',
+              match: { prefixes: ['CORP\\'] },
+              url: 'ldaps://corp.example.org:636',
+              searchBase: 'dc=corp,dc=example,dc=org',
+            },
+            {
+              name: 'openldap',
+              url: 'ldaps://ldap.example.org:636',
+              searchBase: 'ou=users,dc=example,dc=org',
+            },
+          ],
+          tryEachDirectory: true,
+          signIn: mockConfig.get('signIn'),
+        }),
+      );
+
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+      await handlers.frameHandler(
+        { method: 'POST', body: { username: 'jdoe', password: 'pass' } } as any,
+        res,
+      );
+
+      expect(mockAuthenticateWithLdap).toHaveBeenCalledTimes(2);
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          providerInfo: expect.objectContaining({ directory: 'openldap' }),
+        }),
+      );
+    });
+
+    it('should not try the next directory if the password is wrong', async () => {
+      mockAuthenticateWithLdap.mockRejectedValue(
+        new LdapAuthError('invalidCredentials'),
+      );
+      handlers = createHandlers(
+        new ConfigReader({
+          directories: [
+            {
+              name: 'corp',
+              url: 'ldaps://corp.example.org:636',
+              searchBase: 'dc=corp,dc=example,dc=org',
+            },
+            {
+              name: 'openldap',
+              url: 'ldaps://ldap.example.org:636',
+              searchBase: 'ou=users,dc=example,dc=org',
+            },
+          ],
+          tryEachDirectory: true,
+          signIn: mockConfig.get('signIn'),
+        }),
+      );
+
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+      await handlers.frameHandler(
+        { method: 'POST', body: { username: 'jdoe', password: 'bad' } } as any,
+        res,
+      );
+
+      expect(mockAuthenticateWithLdap).toHaveBeenCalledTimes(1);
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should normalize the username before the lookup', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          usernameNormalization: { stripDomain: true, case: 'lower' },
+        }),
+      );
+
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+      await handlers.frameHandler(
+        {
+          method: 'POST',
+          body: { username: ' CORP\\JDoe ', password: 'pass' },
+        } as any,
+        res,
+      );
+
+      expect(mockAuthenticateWithLdap).toHaveBeenCalledWith(
+        'jdoe',
+        'pass',
+        expect.any(Object),
+        mockLogger,
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should use a custom profile transform', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      handlers = createHandlers(mockConfig, userInfo => ({
+        displayName: userInfo.uid.toUpperCase(),
+      }));
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'pass' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ profile: { displayName: 'JDOE' } }),
+      );
+    });
+
+    it('should try the configured resolvers in order', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      mockResolverContext.signInWithCatalogUser
+        .mockRejectedValueOnce(new NotFoundError('User not found'))
+        .mockResolvedValueOnce({ token: backstageToken });
+
+      handlers = createHandlers(
+        new ConfigReader({
+          development: {
+            url: 'ldaps://ldap.example.com:636',
+            searchBase: 'ou=users,dc=example,dc=org',
+            signIn: {
+              resolvers: [
+                { resolver: 'emailMatchingUserEntityAnnotation' },
+                { resolver: 'usernameMatchingUserEntityName' },
+              ],
+            },
+          },
+        }),
+      );
+
+      const req = {
+        method: 'POST',
+        query: {},
+        body: { username: 'jdoe', password: 'pass' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(mockResolverContext.signInWithCatalogUser).toHaveBeenNthCalledWith(
+        1,
+        {
+          annotations: { 'backstage.io/ldap-email': 'jdoe@example.com' },
+        },
+      );
+      expect(mockResolverContext.signInWithCatalogUser).toHaveBeenNthCalledWith(
+        2,
+        { entityRef: { name: 'jdoe' } },
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should fail when no configured resolver matches', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      mockResolverContext.signInWithCatalogUser.mockRejectedValue(
+        new NotFoundError('User not found'),
+      );
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'pass' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'AuthenticationError',
+          message: expect.stringContaining('unable to resolve user identity'),
+        },
+      });
+    });
+
+    it('should fail when no sign-in resolver is configured', async () => {
+      handlers = createHandlers(
+        new ConfigReader({
+          url: 'ldaps://ldap.example.com:636',
+          searchBase: 'ou=users,dc=example,dc=org',
+        }),
+      );
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'pass' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(mockAuthenticateWithLdap).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'AuthenticationError',
+          message: expect.stringContaining('No sign-in resolver configured'),
+        },
+      });
+    });
+
     it('should return 400 if username is missing', async () => {
       const req = { method: 'POST', body: { password: 'pass' } } as any;
       const res = {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
       } as any;
 
       await handlers.frameHandler(req, res);
@@ -160,6 +570,7 @@ describe('createLdapProviderFactory', () => {
       const res = {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
       } as any;
 
       await handlers.frameHandler(req, res);
@@ -179,6 +590,7 @@ describe('createLdapProviderFactory', () => {
       const res = {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
       } as any;
 
       await handlers.frameHandler(req, res);
@@ -193,11 +605,268 @@ describe('createLdapProviderFactory', () => {
       );
     });
 
+    it('should add the entity refs mapped from LDAP groups to the token', async () => {
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          groupMapping: [
+            { dn: 'cn=(.*),ou=groups', entityRef: 'group:default/$1' },
+          ],
+        }),
+      );
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      mockResolverContext.findCatalogUser = jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({
+          entity: { kind: 'User', metadata: { name: 'jdoe' } },
+        });
+      mockResolverContext.resolveOwnershipEntityRefs = jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ ownershipEntityRefs: ['user:default/jdoe'] });
+      mockResolverContext.issueToken = jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ token: backstageToken });
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'secret' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(mockResolverContext.issueToken).toHaveBeenCalledWith({
+        claims: {
+          sub: 'user:default/jdoe',
+          ent: ['user:default/jdoe', 'group:default/devs'],
+        },
+      });
+    });
+
+    it('should return 403 for users outside of the allowed groups', async () => {
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          access: { allowedGroups: ['admins'] },
+        }),
+      );
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'secret' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'NotAllowedError',
+          message: "User 'jdoe' is not authorized for Backstage",
+        },
+      });
+      expect(mockResolverContext.signInWithCatalogUser).not.toHaveBeenCalled();
+    });
+
+    it('should return the reason the directory rejected the bind', async () => {
+      mockAuthenticateWithLdap.mockRejectedValue(
+        new LdapAuthError(
+          'accountLocked',
+          'Your account is locked, contact your administrator',
+        ),
+      );
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'secret' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'AuthenticationError',
+          message: 'Your account is locked, contact your administrator',
+          reason: 'accountLocked',
+        },
+      });
+    });
+
+    it('should return 503 when the directory is unavailable', async () => {
+      mockAuthenticateWithLdap.mockRejectedValue(
+        new ServiceUnavailableError(
+          'The LDAP directory is temporarily unavailable',
+          new Error('connect ECONNREFUSED 10.0.0.1:636'),
+        ),
+      );
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'pass' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(503);
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'ServiceUnavailableError',
+          message: 'The LDAP directory is temporarily unavailable',
+          retryable: true,
+        },
+      });
+    });
+
+    it('should throttle repeated failed sign-ins', async () => {
+      mockAuthenticateWithLdap.mockRejectedValue(
+        new Error("Invalid credentials for user 'jdoe'"),
+      );
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          throttling: { maxFailuresPerUser: 2, backoff: 30000 },
+        }),
+        undefined,
+        createMockCache(),
+      );
+
+      const attempt = async () => {
+        const req = {
+          method: 'POST',
+          ip: '10.0.0.1',
+          body: { username: 'jdoe', password: 'wrong' },
+        } as any;
+        const res = {
+          status: jest.fn<any>().mockReturnThis(),
+          json: jest.fn(),
+          setHeader: jest.fn(),
+        } as any;
+        await handlers.frameHandler(req, res);
+        return res;
+      };
+
+      expect((await attempt()).status).toHaveBeenCalledWith(401);
+      expect((await attempt()).status).toHaveBeenCalledWith(401);
+
+      const res = await attempt();
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'TooManyRequestsError',
+          message: 'Too many failed sign-in attempts, try again in 30 seconds',
+          retryAfter: 30,
+        },
+      });
+      expect(mockAuthenticateWithLdap).toHaveBeenCalledTimes(2);
+    });
+
+    describe('with several usernames from the same client IP', () => {
+      const attempt = async (username: string) => {
+        const req = {
+          method: 'POST',
+          ip: '10.0.0.1',
+          body: { username, password: 'wrong' },
+        } as any;
+        const res = {
+          status: jest.fn<any>().mockReturnThis(),
+          json: jest.fn(),
+          setHeader: jest.fn(),
+        } as any;
+        await handlers.frameHandler(req, res);
+        return res;
+      };
+
+      beforeEach(() => {
+        mockAuthenticateWithLdap.mockRejectedValue(
+          new LdapAuthError('invalidCredentials', 'Invalid credentials'),
+        );
+      });
+
+      it('should block the IP once its limit is reached', async () => {
+        handlers = createHandlers(
+          new ConfigReader({
+            ...mockConfig.get<object>(),
+            throttling: { maxFailuresPerIp: 2, backoff: 30000 },
+          }),
+          undefined,
+          createMockCache(),
+        );
+
+        expect((await attempt('jdoe')).status).toHaveBeenCalledWith(401);
+        expect((await attempt('asmith')).status).toHaveBeenCalledWith(401);
+        expect((await attempt('bwayne')).status).toHaveBeenCalledWith(429);
+        expect(mockAuthenticateWithLdap).toHaveBeenCalledTimes(2);
+      });
+
+      it('should not block the IP without a limit for it', async () => {
+        handlers = createHandlers(
+          new ConfigReader({
+            ...mockConfig.get<object>(),
+            throttling: { maxFailuresPerUser: 2 },
+          }),
+          undefined,
+          createMockCache(),
+        );
+
+        for (let i = 0; i < 25; i++) {
+          expect((await attempt(`user${i}`)).status).toHaveBeenCalledWith(401);
+        }
+      });
+    });
+
+    it('should not count an unavailable directory as a failed sign-in', async () => {
+      mockAuthenticateWithLdap.mockRejectedValue(
+        new ServiceUnavailableError('The LDAP directory is unavailable'),
+      );
+      const cache = createMockCache();
+      handlers = createHandlers(mockConfig, undefined, cache);
+
+      const req = {
+        method: 'POST',
+        ip: '10.0.0.1',
+        body: { username: 'jdoe', password: 'pass' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.frameHandler(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(503);
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+
     it('should return 405 for GET requests', async () => {
       const req = { method: 'GET' } as any;
       const res = {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
       } as any;
 
       await handlers.frameHandler(req, res);
@@ -205,12 +874,105 @@ describe('createLdapProviderFactory', () => {
     });
   });
 
+  describe('changePassword', () => {
+    const passwordChangeConfig = new ConfigReader({
+      ...mockConfig.get<object>(),
+      passwordChange: { enabled: true },
+    });
+
+    it('should change the password and sign in with the new one', async () => {
+      handlers = createHandlers(passwordChangeConfig);
+      mockChangeLdapPassword.mockResolvedValue(undefined);
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'old', newPassword: 'new' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.changePassword(req, res);
+
+      expect(mockChangeLdapPassword).toHaveBeenCalledWith(
+        'jdoe',
+        'old',
+        'new',
+        expect.objectContaining({
+          passwordChange: { enabled: true, method: 'passwordModify' },
+        }),
+        mockLogger,
+      );
+      expect(mockAuthenticateWithLdap).toHaveBeenCalledWith(
+        'jdoe',
+        'new',
+        expect.anything(),
+        mockLogger,
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 403 if password changes are not enabled', async () => {
+      const req = {
+        method: 'POST',
+        body: { username: 'jdoe', password: 'old', newPassword: 'new' },
+      } as any;
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.changePassword(req, res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockChangeLdapPassword).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 if the new password is missing or unchanged', async () => {
+      handlers = createHandlers(passwordChangeConfig);
+      const res = {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+      } as any;
+
+      await handlers.changePassword(
+        { body: { username: 'jdoe', password: 'old' } } as any,
+        res,
+      );
+      await handlers.changePassword(
+        { body: { username: 'jdoe', password: 'old', newPassword: 'old' } },
+        res,
+      );
+
+      expect(res.status).toHaveBeenNthCalledWith(1, 400);
+      expect(res.status).toHaveBeenNthCalledWith(2, 400);
+      expect(mockChangeLdapPassword).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown password change method', () => {
+      expect(() =>
+        createHandlers(
+          new ConfigReader({
+            ...mockConfig.get<object>(),
+            passwordChange: { method: 'smbpasswd' },
+          }),
+        ),
+      ).toThrow("Invalid passwordChange.method 'smbpasswd'");
+    });
+  });
+
   describe('start', () => {
     it('should return 405', async () => {
       const req = {} as any;
       const res = {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
       } as any;
 
       await handlers.start(req, res);
@@ -218,17 +980,495 @@ describe('createLdapProviderFactory', () => {
     });
   });
 
+  describe('refresh', () => {
+    function createResponse() {
+      return {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+        clearCookie: jest.fn(),
+      } as any;
+    }
+
+    async function signIn() {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      const res = createResponse();
+      await handlers.frameHandler(
+        { method: 'POST', body: { username: 'jdoe', password: 'pass' } } as any,
+        res,
+      );
+      return res.cookie.mock.calls[0][1] as string;
+    }
+
+    it('should set an encrypted refresh cookie on sign-in', async () => {
+      const res = createResponse();
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+
+      await handlers.frameHandler(
+        { method: 'POST', body: { username: 'jdoe', password: 'pass' } } as any,
+        res,
+      );
+
+      expect(res.cookie).toHaveBeenCalledWith(
+        'ldap-refresh-token',
+        expect.not.stringContaining('jdoe'),
+        expect.objectContaining({
+          httpOnly: true,
+          path: '/ldap',
+          secure: false,
+          sameSite: 'lax',
+          maxAge: expect.any(Number),
+        }),
+      );
+    });
+
+    it('should look the user up again and issue a new token', async () => {
+      const token = await signIn();
+      mockReadLdapUser.mockResolvedValue(jdoeUserInfo);
+      const res = createResponse();
+
+      await handlers.refresh(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        res,
+      );
+
+      expect(mockReadLdapUser).toHaveBeenCalledWith(
+        'jdoe',
+        expect.objectContaining({ searchBase: 'ou=users,dc=example,dc=org' }),
+        mockLogger,
+      );
+      expect(mockResolverContext.signInWithCatalogUser).toHaveBeenCalledTimes(
+        2,
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          backstageIdentity: expect.objectContaining({
+            token: backstageToken,
+          }),
+        }),
+      );
+    });
+
+    it('should end the session of users that are no longer allowed', async () => {
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          access: { allowedGroups: ['devs'] },
+        }),
+      );
+      const token = await signIn();
+      mockReadLdapUser.mockResolvedValue({ ...jdoeUserInfo, memberOf: [] });
+      const res = createResponse();
+
+      await handlers.refresh(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        res,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.clearCookie).toHaveBeenCalledWith(
+        'ldap-refresh-token',
+        expect.objectContaining({ path: '/ldap' }),
+      );
+    });
+
+    it('should return 401 without a valid refresh cookie', async () => {
+      const res = createResponse();
+
+      await handlers.refresh(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          cookies: { 'ldap-refresh-token': 'forged' },
+        } as any,
+        res,
+      );
+
+      expect(mockReadLdapUser).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.json).toHaveBeenCalledWith({
+        error: {
+          name: 'AuthenticationError',
+          message: 'The LDAP session has expired, sign in again',
+        },
+      });
+    });
+
+    it('should refresh sessions issued by another replica', async () => {
+      const token = await signIn();
+      handlers = createHandlers();
+      mockReadLdapUser.mockResolvedValue(jdoeUserInfo);
+      const res = createResponse();
+
+      await handlers.refresh(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        res,
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should disable sessions without a secret', async () => {
+      const { session: _session, ...configWithoutSecret } =
+        mockConfig.get<Record<string, unknown>>();
+      handlers = createHandlers(new ConfigReader(configWithoutSecret as any));
+      const res = createResponse();
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+
+      await handlers.frameHandler(
+        { method: 'POST', body: { username: 'jdoe', password: 'pass' } } as any,
+        res,
+      );
+
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.cookie).not.toHaveBeenCalled();
+    });
+
+    it('should warn about sessions enabled without a secret', () => {
+      createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          session: { enabled: true },
+        }),
+      );
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        'LDAP refresh sessions are disabled, set session.secret to enable them',
+      );
+    });
+
+    it('should require the X-Requested-With header', async () => {
+      const token = await signIn();
+      const res = createResponse();
+
+      await handlers.refresh(
+        { headers: {}, cookies: { 'ldap-refresh-token': token } } as any,
+        res,
+      );
+
+      expect(mockReadLdapUser).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    });
+  });
+
   describe('logout', () => {
-    it('should return 200', async () => {
-      const req = {} as any;
-      const res = {
+    function createResponse() {
+      return {
         status: jest.fn<any>().mockReturnThis(),
         json: jest.fn(),
+        cookie: jest.fn(),
+        clearCookie: jest.fn(),
       } as any;
+    }
+
+    async function signIn(username = 'jdoe') {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      const res = createResponse();
+      await handlers.frameHandler(
+        { method: 'POST', body: { username, password: 'pass' } } as any,
+        res,
+      );
+      return res.cookie.mock.calls[0][1] as string;
+    }
+
+    async function refresh(token: string) {
+      mockReadLdapUser.mockResolvedValue(jdoeUserInfo);
+      const res = createResponse();
+      await handlers.refresh(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        res,
+      );
+      return res;
+    }
+
+    it('should clear the refresh cookie', async () => {
+      const res = createResponse();
 
-      await handlers.logout(req, res);
+      await handlers.logout(
+        { headers: { 'x-requested-with': 'XMLHttpRequest' }, query: {} } as any,
+        res,
+      );
 
       expect(res.status).toHaveBeenCalledWith(200);
+      expect(res.clearCookie).toHaveBeenCalledWith(
+        'ldap-refresh-token',
+        expect.objectContaining({ path: '/ldap' }),
+      );
+    });
+
+    it('should revoke the session of the refresh cookie', async () => {
+      handlers = createHandlers(mockConfig, undefined, createMockCache());
+      const token = await signIn();
+      const otherToken = await signIn();
+
+      await handlers.logout(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          query: {},
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        createResponse(),
+      );
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        "LDAP user 'jdoe' of directory 'default' signed out",
+      );
+      expect((await refresh(token)).status).toHaveBeenCalledWith(401);
+      expect((await refresh(otherToken)).status).toHaveBeenCalledWith(200);
+    });
+
+    it('should revoke every session of the user when signing out everywhere', async () => {
+      handlers = createHandlers(mockConfig, undefined, createMockCache());
+      const token = await signIn();
+      const otherToken = await signIn();
+
+      await handlers.logout(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          query: { everywhere: 'true' },
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        createResponse(),
+      );
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        "LDAP user 'jdoe' of directory 'default' signed out of all sessions",
+      );
+      expect((await refresh(token)).status).toHaveBeenCalledWith(401);
+      expect((await refresh(otherToken)).status).toHaveBeenCalledWith(401);
+    });
+
+    it('should revoke the sessions the user signed in to with another username', async () => {
+      handlers = createHandlers(mockConfig, undefined, createMockCache());
+      const token = await signIn('jdoe');
+      const aliasToken = await signIn('john.doe');
+
+      await handlers.logout(
+        {
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          query: { everywhere: 'true' },
+          cookies: { 'ldap-refresh-token': token },
+        } as any,
+        createResponse(),
+      );
+
+      expect((await refresh(aliasToken)).status).toHaveBeenCalledWith(401);
+    });
+
+    it('should require the X-Requested-With header', async () => {
+      const res = createResponse();
+
+      await handlers.logout({ headers: {}, query: {} } as any, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(res.clearCookie).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('audit', () => {
+    const auditEvent = {
+      success: jest.fn<(...args: any[]) => any>(),
+      fail: jest.fn<(...args: any[]) => any>(),
+    };
+    const auditor = {
+      createEvent: jest.fn<(...args: any[]) => any>(),
+    };
+
+    function createRequest(body: object) {
+      return {
+        method: 'POST',
+        ip: '10.0.0.1',
+        headers: { 'user-agent': 'Mozilla/5.0' },
+        query: {},
+        body,
+      } as any;
+    }
+
+    function createResponse() {
+      return {
+        status: jest.fn<any>().mockReturnThis(),
+        json: jest.fn(),
+        cookie: jest.fn(),
+        clearCookie: jest.fn(),
+        setHeader: jest.fn(),
+      } as any;
+    }
+
+    beforeEach(() => {
+      auditor.createEvent.mockResolvedValue(auditEvent);
+      handlers = createHandlers(mockConfig, undefined, undefined, auditor);
+    });
+
+    it('should record a successful sign-in with the resolved identity', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+
+      await handlers.frameHandler(
+        createRequest({ username: 'jdoe', password: 'S3cret!' }),
+        createResponse(),
+      );
+
+      expect(auditor.createEvent).toHaveBeenCalledWith({
+        eventId: 'ldap-sign-in',
+        severityLevel: 'medium',
+        meta: {
+          clientIp: '10.0.0.1',
+          userAgent: 'Mozilla/5.0',
+          username: 'jdoe',
+          passwordChange: false,
+        },
+      });
+      expect(auditEvent.success).toHaveBeenCalledWith({
+        meta: {
+          username: 'jdoe',
+          uid: 'jdoe',
+          directory: 'default',
+          resolverOutcome: 'resolved',
+          userEntityRef: 'user:default/jdoe',
+        },
+      });
+      expect(JSON.stringify(auditor.createEvent.mock.calls)).not.toContain(
+        'S3cret!',
+      );
+    });
+
+    it('should record the reason of a failed sign-in', async () => {
+      const error = new LdapAuthError('accountLocked');
+      mockAuthenticateWithLdap.mockRejectedValue(error);
+
+      await handlers.frameHandler(
+        createRequest({ username: 'jdoe', password: 'S3cret!' }),
+        createResponse(),
+      );
+
+      expect(auditEvent.fail).toHaveBeenCalledWith({
+        error,
+        meta: { username: 'jdoe', reason: 'accountLocked' },
+      });
+    });
+
+    it('should record a failed sign-in resolution', async () => {
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+      mockResolverContext.signInWithCatalogUser.mockRejectedValue(
+        new NotFoundError('User not found in the catalog'),
+      );
+
+      await handlers.frameHandler(
+        createRequest({ username: 'jdoe', password: 'S3cret!' }),
+        createResponse(),
+      );
+
+      expect(auditEvent.fail).toHaveBeenCalledWith({
+        error: expect.objectContaining({
+          message: expect.stringContaining('unable to resolve user identity'),
+        }),
+        meta: {
+          username: 'jdoe',
+          uid: 'jdoe',
+          directory: 'default',
+          resolverOutcome: 'failed',
+          reason: 'Error',
+        },
+      });
+    });
+
+    it('should record throttled sign-ins', async () => {
+      mockAuthenticateWithLdap.mockRejectedValue(
+        new LdapAuthError('invalidCredentials'),
+      );
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          throttling: { maxFailuresPerUser: 1, backoff: 30000 },
+        }),
+        undefined,
+        createMockCache(),
+        auditor,
+      );
+
+      await handlers.frameHandler(
+        createRequest({ username: 'jdoe', password: 'wrong' }),
+        createResponse(),
+      );
+      await handlers.frameHandler(
+        createRequest({ username: 'jdoe', password: 'wrong' }),
+        createResponse(),
+      );
+
+      expect(auditEvent.fail).toHaveBeenLastCalledWith({
+        error: expect.objectContaining({ name: 'TooManyRequestsError' }),
+        meta: { username: 'jdoe', reason: 'throttled', retryAfter: 30 },
+      });
+    });
+
+    it('should record password changes', async () => {
+      handlers = createHandlers(
+        new ConfigReader({
+          ...mockConfig.get<object>(),
+          passwordChange: { enabled: true },
+        }),
+        undefined,
+        undefined,
+        auditor,
+      );
+      mockChangeLdapPassword.mockResolvedValue(undefined);
+      mockAuthenticateWithLdap.mockResolvedValue(jdoeUserInfo);
+
+      await handlers.changePassword(
+        createRequest({
+          username: 'jdoe',
+          password: 'S3cret!',
+          newPassword: 'N3wSecret!',
+        }),
+        createResponse(),
+      );
+
+      expect(auditor.createEvent).toHaveBeenCalledWith({
+        eventId: 'ldap-password-change',
+        severityLevel: 'high',
+        meta: {
+          clientIp: '10.0.0.1',
+          userAgent: 'Mozilla/5.0',
+          username: 'jdoe',
+          directory: 'default',
+        },
+      });
+      expect(auditEvent.success).toHaveBeenCalledTimes(2);
+      expect(JSON.stringify(auditor.createEvent.mock.calls)).not.toMatch(
+        /S3cret!|N3wSecret!/,
+      );
+    });
+
+    it('should record sign-outs', async () => {
+      await handlers.logout(
+        {
+          ...createRequest({}),
+          headers: { 'x-requested-with': 'XMLHttpRequest' },
+          query: { everywhere: 'true' },
+        },
+        createResponse(),
+      );
+
+      expect(auditor.createEvent).toHaveBeenCalledWith({
+        eventId: 'ldap-sign-out',
+        severityLevel: 'low',
+        meta: { clientIp: '10.0.0.1', everywhere: true },
+      });
+      expect(auditEvent.success).toHaveBeenCalledWith({
+        meta: { everywhere: true },
+      });
     });
   });
 });
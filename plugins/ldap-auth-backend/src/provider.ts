@@ -15,15 +15,81 @@
  */
 
 import {
+  prepareBackstageIdentityResponse,
+  readDeclarativeSignInResolver,
   type AuthProviderFactory,
   type AuthProviderRouteHandlers,
   type AuthResolverContext,
+  type CookieConfigurer,
+  type SignInResolver,
+  type SignInResolverFactory,
 } from '@backstage/plugin-auth-node';
-import { InputError, NotFoundError } from '@backstage/errors';
+import {
+  AuthenticationError,
+  InputError,
+  isError,
+  NotAllowedError,
+  NotFoundError,
+  stringifyError,
+} from '@backstage/errors';
 import type { Config } from '@backstage/config';
-import type { LoggerService } from '@backstage/backend-plugin-api';
-import type { LdapClientConfig } from './types';
-import { authenticateWithLdap } from './ldapClient';
+import { randomUUID } from 'node:crypto';
+import type {
+  AuditorService,
+  AuditorServiceCreateEventOptions,
+  AuditorServiceEvent,
+  AuditorServiceEventSeverityLevel,
+  CacheService,
+  LoggerService,
+} from '@backstage/backend-plugin-api';
+import type {
+  LdapAccountStatusChecker,
+  LdapAuthResult,
+  LdapBinaryEncoding,
+  LdapClientConfig,
+  LdapProfileTransform,
+  LdapUserInfo,
+} from './types';
+import {
+  isLdapAccessAllowed,
+  readLdapAccessConfig,
+  type LdapAccessConfig,
+} from './access';
+import {
+  mapGroupsToEntityRefs,
+  readLdapGroupMappingConfig,
+  type LdapGroupMapping,
+} from './groupMapping';
+import {
+  ldapAccountStatusCheckers,
+  readLdapAccountStatusConfig,
+} from './accountStatus';
+import { BINARY_ENCODINGS } from './attributes';
+import {
+  LdapDirectory,
+  readLdapDirectories,
+  selectLdapDirectories,
+  type LdapDirectoryCandidate,
+} from './directories';
+import {
+  authenticateWithLdap,
+  changeLdapPassword,
+  readLdapUser,
+} from './ldapClient';
+import { LdapAuthError } from './errors';
+import {
+  LdapRefreshTokens,
+  LdapSessionRevocations,
+  readLdapSessionConfig,
+  type LdapRefreshSession,
+} from './session';
+import { LoginThrottle, readLoginThrottleConfig } from './throttle';
+import {
+  LdapUsernameNormalization,
+  normalizeUsername,
+  readLdapUsernameNormalizationConfig,
+} from './username';
+import { readLdapTlsConfig } from './tls';
 import type { Request, Response } from 'express';
 
 /**
@@ -33,21 +99,188 @@ import type { Request, Response } from 'express';
  */
 export interface LdapProviderFactoryOptions {
   /**
-   * Sign-in resolver factories to use.
+   * Sign-in resolver factories that can be referenced by name from the
+   * `signIn.resolvers` configuration of each environment.
+   */
+  signInResolverFactories: {
+    [name in string]: SignInResolverFactory<LdapAuthResult>;
+  };
+  /**
+   * Transform used to build the sign-in profile from the LDAP user.
+   * Defaults to {@link defaultLdapProfileTransform}.
+   */
+  profileTransform?: LdapProfileTransform;
+  /**
+   * Account status checks that can be referenced by name from the
+   * `accountStatus.checks` configuration, in addition to the built-in
+   * {@link ldapAccountStatusCheckers}.
+   */
+  accountStatusCheckers?: {
+    [name in string]: LdapAccountStatusChecker;
+  };
+  /**
+   * Cache used to share the sign-in throttling counters and the revoked
+   * sessions across backend replicas. Throttling is disabled without it,
+   * and signing out then only clears the refresh cookie of the browser.
+   */
+  cache?: CacheService;
+  /**
+   * Auditor that records sign-ins, failed attempts, password changes and
+   * sign-outs. No audit events are emitted without it.
    */
-  signInResolverFactories: Record<string, (...args: any[]) => any>;
+  auditor?: AuditorService;
+}
+
+/**
+ * The default profile transform, which maps the LDAP email, display name and
+ * picture.
+ *
+ * @public
+ */
+export const defaultLdapProfileTransform: LdapProfileTransform = userInfo => ({
+  email: userInfo.email,
+  displayName: userInfo.displayName,
+  picture: userInfo.picture,
+});
+
+/**
+ * The route handlers of the LDAP provider, including the password change
+ * route that the module mounts next to the standard auth provider routes.
+ *
+ * @internal
+ */
+export interface LdapProviderRouteHandlers extends AuthProviderRouteHandlers {
+  changePassword(req: Request, res: Response): Promise<void>;
+}
+
+/**
+ * Everything the provider needs to handle a request for one environment.
+ */
+interface LdapEnvironment {
+  /** Name of the environment, unless the config has a single flat one */
+  name?: string;
+  directories: LdapDirectory[];
+  tryEachDirectory: boolean;
+  usernameNormalization: LdapUsernameNormalization;
+  access: LdapAccessConfig;
+  groupMapping: LdapGroupMapping[];
+  signInResolver?: SignInResolver<LdapAuthResult>;
+  throttle?: LoginThrottle;
+  refreshTokens?: LdapRefreshTokens;
+  sessionRevocations?: LdapSessionRevocations;
 }
 
 /**
  * Read LDAP config from an environment-specific block.
  */
-function readLdapEnvironmentConfig(config: Config): LdapClientConfig {
+function readLdapEnvironmentConfig(
+  config: Config,
+  options: LdapProviderFactoryOptions,
+): LdapClientConfig {
+  const strategy = config.getOptionalString('servers.strategy') ?? 'failover';
+  if (strategy !== 'failover' && strategy !== 'roundRobin') {
+    throw new Error(
+      `Invalid servers.strategy '${strategy}', must be 'failover' or 'roundRobin'`,
+    );
+  }
+
+  const passwordChangeEnabled =
+    config.getOptionalBoolean('passwordChange.enabled') ?? false;
+  const passwordChangeMethod =
+    config.getOptionalString('passwordChange.method') ?? 'passwordModify';
+  if (
+    passwordChangeMethod !== 'passwordModify' &&
+    passwordChangeMethod !== 'unicodePwd'
+  ) {
+    throw new Error(
+      `Invalid passwordChange.method '${passwordChangeMethod}', must be 'passwordModify' or 'unicodePwd'`,
+    );
+  }
+
+  const binaryAttributes: Record<string, LdapBinaryEncoding> = {};
+  const binaryAttributesConfig = config.getOptionalConfig('binaryAttributes');
+  for (const attribute of binaryAttributesConfig?.keys() ?? []) {
+    const encoding = binaryAttributesConfig!.getString(attribute);
+    if (!BINARY_ENCODINGS.includes(encoding as LdapBinaryEncoding)) {
+      throw new Error(
+        `Invalid encoding '${encoding}' of binary attribute '${attribute}', must be one of ${BINARY_ENCODINGS.map(
+          e => `'${e}'`,
+        ).join(', ')}`,
+      );
+    }
+    binaryAttributes[attribute] = encoding as LdapBinaryEncoding;
+  }
+
+  const groupExpansion = config.getOptionalString('groups.expansion') ?? 'none';
+  if (
+    groupExpansion !== 'none' &&
+    groupExpansion !== 'matchingRuleInChain' &&
+    groupExpansion !== 'tokenGroups' &&
+    groupExpansion !== 'recursive'
+  ) {
+    throw new Error(
+      `Invalid groups.expansion '${groupExpansion}', must be 'none', 'matchingRuleInChain', 'tokenGroups' or 'recursive'`,
+    );
+  }
+
+  const memberAttribute =
+    config.getOptionalString('groups.memberAttribute') ?? 'member';
+  const memberValue =
+    config.getOptionalString('groups.memberValue') ??
+    (memberAttribute.toLowerCase() === 'memberuid' ? 'uid' : 'dn');
+  if (memberValue !== 'dn' && memberValue !== 'uid') {
+    throw new Error(
+      `Invalid groups.memberValue '${memberValue}', must be 'dn' or 'uid'`,
+    );
+  }
+
+  const url =
+    typeof config.get('url') === 'string'
+      ? config.getString('url')
+      : config.getStringArray('url');
+
+  const tls = readLdapTlsConfig(config);
+  const unencrypted = [url]
+    .flat()
+    .filter(u => !u.startsWith('ldaps://') && !tls.startTls);
+  if (tls.required && unencrypted.length > 0) {
+    throw new Error(
+      `LDAP tls.required is set but ${unencrypted.join(
+        ', ',
+      )} would be unencrypted, use ldaps:// or enable tls.startTls`,
+    );
+  }
+
+  const bindDNTemplate = config.getOptionalString('bindDNTemplate');
+  if (bindDNTemplate && config.has('bindDN')) {
+    throw new Error(
+      'LDAP bindDNTemplate binds as the user instead of a service account and can not be combined with bindDN',
+    );
+  }
+  if (bindDNTemplate && passwordChangeEnabled) {
+    throw new Error(
+      'LDAP passwordChange needs a service account and can not be combined with bindDNTemplate',
+    );
+  }
+  if (passwordChangeEnabled && unencrypted.length > 0) {
+    throw new Error(
+      `LDAP passwordChange sends passwords to the directory and can not be used with ${unencrypted.join(
+        ', ',
+      )} unencrypted, use ldaps:// or enable tls.startTls`,
+    );
+  }
+
+  const searchBase = config.getString('searchBase');
+  const usernameAttribute =
+    config.getOptionalString('usernameAttribute') ?? 'uid';
+
   return {
-    url: config.getString('url'),
+    url,
     bindDN: config.getOptionalString('bindDN'),
     bindCredentials: config.getOptionalString('bindCredentials'),
-    searchBase: config.getString('searchBase'),
-    usernameAttribute: config.getOptionalString('usernameAttribute') ?? 'uid',
+    bindDNTemplate,
+    searchBase,
+    usernameAttribute,
     searchFilter:
       config.getOptionalString('searchFilter') ?? '(uid={{username}})',
     userAttributes: config.getOptionalStringArray('userAttributes') ?? [
@@ -55,25 +288,125 @@ function readLdapEnvironmentConfig(config: Config): LdapClientConfig {
       'displayName',
       'memberOf',
     ],
-    tls: {
-      rejectUnauthorized:
-        config.getOptionalBoolean('tls.rejectUnauthorized') ?? true,
+    binaryAttributes,
+    attributeMap: {
+      uid: config.getOptionalString('attributeMap.uid') ?? usernameAttribute,
+      displayName:
+        config.getOptionalString('attributeMap.displayName') ?? 'displayName',
+      email: config.getOptionalString('attributeMap.email') ?? 'mail',
+      picture: config.getOptionalString('attributeMap.picture'),
+      pictureMaxSize:
+        config.getOptionalNumber('attributeMap.pictureMaxSize') ?? 102400,
+    },
+    tls,
+    timeouts: {
+      connect: config.getOptionalNumber('timeouts.connect') ?? 5000,
+      operation: config.getOptionalNumber('timeouts.operation') ?? 10000,
+    },
+    servers: {
+      strategy,
+      maxFailures: config.getOptionalNumber('servers.maxFailures') ?? 3,
+      cooldown: config.getOptionalNumber('servers.cooldown') ?? 30000,
+    },
+    pool: {
+      maxSize: config.getOptionalNumber('pool.maxSize') ?? 5,
+      idleTimeout: config.getOptionalNumber('pool.idleTimeout') ?? 300000,
+      keepAliveInterval:
+        config.getOptionalNumber('pool.keepAliveInterval') ?? 60000,
     },
+    groups: {
+      searchBase: config.getOptionalString('groups.searchBase') ?? searchBase,
+      filter: config.getOptionalString('groups.filter'),
+      memberAttribute,
+      memberValue,
+      expansion: groupExpansion,
+      maxDepth: config.getOptionalNumber('groups.maxDepth') ?? 10,
+    },
+    passwordChange: {
+      enabled: passwordChangeEnabled,
+      method: passwordChangeMethod,
+    },
+    accountStatus: readLdapAccountStatusConfig(config, {
+      ...ldapAccountStatusCheckers,
+      ...options.accountStatusCheckers,
+    }),
+  };
+}
+
+/**
+ * Read the LDAP config and the declarative sign-in resolvers of an
+ * environment-specific block.
+ */
+function readLdapEnvironment(
+  config: Config,
+  options: LdapProviderFactoryOptions,
+  logger: LoggerService,
+  name?: string,
+): LdapEnvironment {
+  const throttleConfig = readLoginThrottleConfig(config);
+  const sessionConfig = readLdapSessionConfig(config);
+
+  // A random secret would differ between replicas and restarts, and every
+  // refresh reaching another process would sign the user out
+  const { secret } = sessionConfig;
+  if (sessionConfig.enabled && !secret) {
+    logger.warn(
+      `LDAP refresh sessions${
+        name ? ` of the '${name}' environment` : ''
+      } are disabled, set session.secret to enable them`,
+    );
+  }
+
+  return {
+    name,
+    directories: readLdapDirectories(config, directoryConfig =>
+      readLdapEnvironmentConfig(directoryConfig, options),
+    ),
+    tryEachDirectory: config.getOptionalBoolean('tryEachDirectory') ?? false,
+    usernameNormalization: readLdapUsernameNormalizationConfig(config),
+    access: readLdapAccessConfig(config),
+    groupMapping: readLdapGroupMappingConfig(config),
+    signInResolver: readDeclarativeSignInResolver({
+      config,
+      signInResolverFactories: options.signInResolverFactories,
+    }),
+    throttle:
+      options.cache && throttleConfig.enabled
+        ? new LoginThrottle({ cache: options.cache, config: throttleConfig })
+        : undefined,
+    refreshTokens:
+      sessionConfig.enabled && secret
+        ? new LdapRefreshTokens({ ...sessionConfig, secret })
+        : undefined,
+    sessionRevocations:
+      options.cache && sessionConfig.enabled && secret
+        ? new LdapSessionRevocations({
+            cache: options.cache,
+            maxAge: sessionConfig.maxAge,
+          })
+        : undefined,
   };
 }
 
-function createLdapConfigGetter(config: Config) {
+function createLdapConfigGetter(
+  config: Config,
+  options: LdapProviderFactoryOptions,
+  logger: LoggerService,
+) {
   // Support both legacy flat config under auth.providers.ldap and
   // environment-scoped config under auth.providers.ldap.<env>
-  if (config.has('url')) {
-    const single = readLdapEnvironmentConfig(config);
+  if (config.has('url') || config.has('directories')) {
+    const single = readLdapEnvironment(config, options, logger);
     return (_req: Request | undefined) => single;
   }
 
   const envs = config.keys();
-  const envConfigs = new Map<string, LdapClientConfig>();
+  const envConfigs = new Map<string, LdapEnvironment>();
   for (const env of envs) {
-    envConfigs.set(env, readLdapEnvironmentConfig(config.getConfig(env)));
+    envConfigs.set(
+      env,
+      readLdapEnvironment(config.getConfig(env), options, logger, env),
+    );
   }
 
   const defaultEnv =
@@ -101,6 +434,33 @@ function createLdapConfigGetter(config: Config) {
   };
 }
 
+const REFRESH_COOKIE_NAME = 'ldap-refresh-token';
+
+/**
+ * The details recorded with an audit event, which never include the
+ * submitted passwords.
+ */
+type AuditMeta = NonNullable<AuditorServiceCreateEventOptions['meta']>;
+
+/**
+ * Scopes the refresh cookie to the routes of the provider, like the cookies
+ * of the built-in OAuth providers.
+ */
+const defaultCookieConfigurer: CookieConfigurer = ({
+  providerId,
+  baseUrl,
+  appOrigin,
+}) => {
+  const { hostname, pathname, protocol } = new URL(baseUrl);
+  const secure = protocol === 'https:';
+  return {
+    path: `${pathname.replace(/\/$/, '')}/${providerId}`,
+    secure,
+    sameSite:
+      secure && new URL(appOrigin).hostname !== hostname ? 'none' : 'lax',
+  };
+};
+
 /**
  * Creates an LDAP auth provider factory that implements
  * credential-based authentication against an LDAP directory.
@@ -108,69 +468,405 @@ function createLdapConfigGetter(config: Config) {
  * @public
  */
 export function createLdapProviderFactory(
-  _options: LdapProviderFactoryOptions,
+  factoryOptions: LdapProviderFactoryOptions,
 ): AuthProviderFactory {
+  return createLdapProviderRouteHandlers(factoryOptions);
+}
+
+/**
+ * Like {@link createLdapProviderFactory}, but exposes the password change
+ * route handler as well.
+ *
+ * @internal
+ */
+export function createLdapProviderRouteHandlers(
+  factoryOptions: LdapProviderFactoryOptions,
+) {
   return (options: {
+    providerId: string;
     config: Config;
     logger: LoggerService;
     resolverContext: AuthResolverContext;
+    baseUrl: string;
     appUrl: string;
-  }): AuthProviderRouteHandlers => {
-    const { config, logger, resolverContext } = options;
-    const getLdapConfig = createLdapConfigGetter(config);
+    cookieConfigurer?: CookieConfigurer;
+  }): LdapProviderRouteHandlers => {
+    const { providerId, config, logger, resolverContext, baseUrl, appUrl } =
+      options;
+    const cookieOptions = (options.cookieConfigurer ?? defaultCookieConfigurer)(
+      {
+        providerId,
+        baseUrl,
+        callbackUrl: `${baseUrl}/${providerId}/handler/frame`,
+        appOrigin: new URL(appUrl).origin,
+      },
+    );
+    const getLdapEnvironment = createLdapConfigGetter(
+      config,
+      factoryOptions,
+      logger,
+    );
+    const profileTransform =
+      factoryOptions.profileTransform ?? defaultLdapProfileTransform;
+
+    /**
+     * Starts an audit event for a request, with the client details that
+     * every event carries. The request itself isn't passed to the auditor,
+     * which would try to read the credentials of a caller who isn't signed
+     * in yet.
+     */
+    async function createAuditEvent(
+      req: Request,
+      eventId: string,
+      severityLevel: AuditorServiceEventSeverityLevel,
+      meta: AuditMeta,
+    ): Promise<AuditorServiceEvent | undefined> {
+      return factoryOptions.auditor?.createEvent({
+        eventId,
+        severityLevel,
+        meta: {
+          clientIp: req.ip,
+          userAgent: req.headers?.['user-agent'],
+          ...meta,
+        },
+      });
+    }
+
+    /**
+     * Records the failure of an audited operation with its reason.
+     */
+    async function failAuditEvent(
+      auditEvent: AuditorServiceEvent | undefined,
+      error: unknown,
+      meta: AuditMeta,
+    ) {
+      await auditEvent?.fail({
+        error:
+          error instanceof Error ? error : new Error(stringifyError(error)),
+        meta: {
+          ...meta,
+          reason:
+            error instanceof LdapAuthError
+              ? error.reason
+              : (isError(error) && error.name) || 'unknown',
+        },
+      });
+    }
 
-    async function handleCredentialAuth(req: Request, res: Response) {
-      const { username, password } = req.body as {
+    /**
+     * Signs in with the submitted credentials, changing the password first
+     * if a new password is passed.
+     */
+    async function handleCredentialAuth(
+      req: Request,
+      res: Response,
+      newPassword?: string,
+    ) {
+      const { username: typedUsername, password } = req.body as {
         username?: string;
         password?: string;
       };
 
-      if (!username || !password) {
+      if (!typedUsername || !password) {
         res.status(400).json({
           error: 'Missing username or password in request body',
         });
         return;
       }
 
+      const audit: AuditMeta = {};
+      const auditEvent = await createAuditEvent(req, 'ldap-sign-in', 'medium', {
+        username: typedUsername,
+        passwordChange: newPassword !== undefined,
+      });
       try {
-        const ldapConfig = getLdapConfig(req);
-
-        // 1. Authenticate against LDAP
-        const userInfo = await authenticateWithLdap(
+        const environment = getLdapEnvironment(req);
+        audit.environment = environment.name;
+        const {
+          directories,
+          tryEachDirectory,
+          usernameNormalization,
+          signInResolver,
+          throttle,
+        } = environment;
+        const username = normalizeUsername(
+          typedUsername,
+          usernameNormalization,
+        );
+        if (!username) {
+          throw new InputError('Missing username or password in request body');
+        }
+        audit.username = username;
+        const candidates = selectLdapDirectories(
+          directories,
+          tryEachDirectory,
           username,
+        );
+        if (candidates.length === 0) {
+          throw new Error(`No LDAP directory is configured for '${username}'`);
+        }
+        if (
+          newPassword !== undefined &&
+          candidates.some(
+            ({ directory }) => !directory.ldapConfig.passwordChange.enabled,
+          )
+        ) {
+          throw new NotAllowedError(
+            'Changing passwords is not enabled for the LDAP auth provider',
+          );
+        }
+        if (!signInResolver) {
+          throw new Error(
+            'No sign-in resolver configured for the LDAP auth provider, set auth.providers.ldap.<env>.signIn.resolvers',
+          );
+        }
+
+        const clientIp = req.ip;
+        const retryAfter = await throttle?.check(username, clientIp);
+        if (retryAfter) {
+          const seconds = Math.ceil(retryAfter / 1000);
+          logger.warn(
+            `LDAP sign-in for '${username}' from ${clientIp} throttled for ${seconds}s`,
+          );
+          const message = `Too many failed sign-in attempts, try again in ${seconds} seconds`;
+          await auditEvent?.fail({
+            error: Object.assign(new Error(message), {
+              name: 'TooManyRequestsError',
+            }),
+            meta: { ...audit, reason: 'throttled', retryAfter: seconds },
+          });
+          res.setHeader('Retry-After', String(seconds));
+          res.status(429).json({
+            error: {
+              name: 'TooManyRequestsError',
+              message,
+              retryAfter: seconds,
+            },
+          });
+          return;
+        }
+
+        // 1. Authenticate against LDAP, with the new password if it changed.
+        // The next directory is only tried if the user isn't in this one.
+        let userInfo: LdapUserInfo | undefined;
+        let directory: LdapDirectory | undefined;
+        try {
+          for (const [index, candidate] of candidates.entries()) {
+            try {
+              const { ldapConfig } = candidate.directory;
+              if (newPassword !== undefined) {
+                await changePassword(
+                  req,
+                  candidate,
+                  password,
+                  newPassword,
+                  audit,
+                );
+              }
+              userInfo = await authenticateWithLdap(
+                candidate.username,
+                newPassword ?? password,
+                ldapConfig,
+                logger,
+              );
+              directory = candidate.directory;
+              break;
+            } catch (error) {
+              if (
+                !isError(error) ||
+                error.name !== 'NotFoundError' ||
+                index === candidates.length - 1
+              ) {
+                throw error;
+              }
+            }
+          }
+        } catch (error) {
+          if (!isError(error) || error.name !== 'ServiceUnavailableError') {
+            await throttle?.recordFailure(username, clientIp);
+          }
+          throw error;
+        }
+        if (!userInfo || !directory) {
+          throw new Error(`User '${username}' not found in LDAP directory`);
+        }
+        await throttle?.recordSuccess(username);
+
+        const lookupUsername = candidates.find(
+          candidate => candidate.directory === directory,
+        )!.username;
+        await completeSignIn(
+          res,
+          environment,
+          userInfo,
+          directory,
+          { username: lookupUsername },
+          audit,
+        );
+        await auditEvent?.success({ meta: audit });
+      } catch (error: unknown) {
+        await failAuditEvent(auditEvent, error, audit);
+        sendError(res, error);
+      }
+    }
+
+    /**
+     * Changes the password of a user in one of the candidate directories,
+     * recording the change in its own audit event.
+     */
+    async function changePassword(
+      req: Request,
+      candidate: LdapDirectoryCandidate,
+      password: string,
+      newPassword: string,
+      audit: AuditMeta,
+    ) {
+      const meta = {
+        ...audit,
+        username: candidate.username,
+        directory: candidate.directory.name,
+      };
+      const auditEvent = await createAuditEvent(
+        req,
+        'ldap-password-change',
+        'high',
+        meta,
+      );
+      try {
+        await changeLdapPassword(
+          candidate.username,
           password,
-          ldapConfig,
+          newPassword,
+          candidate.directory.ldapConfig,
           logger,
         );
+      } catch (error) {
+        if (!isError(error) || error.name !== 'NotFoundError') {
+          await failAuditEvent(auditEvent, error, meta);
+        }
+        throw error;
+      }
+      await auditEvent?.success();
+    }
+
+    /**
+     * Checks the groups of an authenticated user, resolves their Backstage
+     * identity and sends it, setting a refresh cookie if sessions are
+     * enabled. The outcome is added to the audit details.
+     */
+    async function completeSignIn(
+      res: Response,
+      environment: LdapEnvironment,
+      userInfo: LdapUserInfo,
+      directory: LdapDirectory,
+      session: Pick<LdapRefreshSession, 'username'> &
+        Partial<LdapRefreshSession>,
+      audit: AuditMeta,
+    ) {
+      audit.uid = userInfo.uid;
+      audit.directory = directory.name;
+      const { access, groupMapping, signInResolver, refreshTokens } =
+        environment;
+      if (!signInResolver) {
+        throw new Error(
+          'No sign-in resolver configured for the LDAP auth provider, set auth.providers.ldap.<env>.signIn.resolvers',
+        );
+      }
+
+      if (!isLdapAccessAllowed(userInfo, access)) {
+        logger.warn(
+          `LDAP user '${userInfo.uid}' is not in an allowed group or is in a denied group`,
+        );
+        throw new NotAllowedError(
+          `User '${userInfo.uid}' is not authorized for Backstage`,
+        );
+      }
 
-        // 2. Resolve Backstage identity via catalog
-        const backstageIdentity = await resolverContext.signInWithCatalogUser({
-          entityRef: { name: userInfo.uid },
+      const profile = profileTransform(userInfo);
+      const groupEntityRefs = mapGroupsToEntityRefs(
+        userInfo.groups ?? userInfo.memberOf ?? [],
+        groupMapping,
+      );
+
+      // 2. Resolve Backstage identity via the configured sign-in resolvers
+      audit.resolverOutcome = 'failed';
+      const backstageIdentity = await signInResolver(
+        {
+          profile,
+          result: { userInfo, groupEntityRefs, directory: directory.name },
+        },
+        resolverContext,
+      );
+      const identityResponse =
+        prepareBackstageIdentityResponse(backstageIdentity);
+      audit.resolverOutcome = 'resolved';
+      audit.userEntityRef = identityResponse.identity.userEntityRef;
+
+      // Users of a bindDNTemplate directory can't be looked up again
+      // without their password, so their sessions can't be refreshed
+      if (refreshTokens && !directory.ldapConfig.bindDNTemplate) {
+        const issuedAt = session.issuedAt ?? Date.now();
+        const expiresAt = session.expiresAt ?? issuedAt + refreshTokens.maxAge;
+        const token = refreshTokens.issue({
+          id: session.id ?? randomUUID(),
+          directory: directory.name,
+          username: session.username,
+          uid: userInfo.uid,
+          issuedAt,
+          expiresAt,
         });
+        res.cookie(REFRESH_COOKIE_NAME, token, {
+          ...cookieOptions,
+          httpOnly: true,
+          maxAge: expiresAt - Date.now(),
+        });
+      }
 
-        res.status(200).json({
-          providerInfo: {
-            uid: userInfo.uid,
-            memberOf: userInfo.memberOf,
-          },
-          profile: {
-            email: userInfo.email,
-            displayName: userInfo.displayName,
-          },
-          backstageIdentity: {
-            token: backstageIdentity.token,
-            identity: backstageIdentity.identity!,
+      res.status(200).json({
+        providerInfo: {
+          uid: userInfo.uid,
+          memberOf: userInfo.memberOf,
+          directory: directory.name,
+        },
+        profile,
+        backstageIdentity: identityResponse,
+      });
+    }
+
+    /**
+     * Sends the error of a failed sign-in or refresh.
+     */
+    function sendError(res: Response, error: unknown) {
+      const message =
+        error instanceof Error ? error.message : 'LDAP authentication failed';
+
+      if (isError(error) && error.name === 'ServiceUnavailableError') {
+        // The cause is only logged, it may reveal internal server names
+        logger.error(`LDAP authentication failed: ${stringifyError(error)}`);
+        res.status(503).json({
+          error: {
+            name: 'ServiceUnavailableError',
+            message: 'The LDAP directory is temporarily unavailable',
+            retryable: true,
           },
         });
-      } catch (error: unknown) {
-        const message =
-          error instanceof Error ? error.message : 'LDAP authentication failed';
+        return;
+      }
 
-        logger.error(`LDAP authentication failed: ${message}`);
-        res.status(401).json({
-          error: { name: 'AuthenticationError', message },
+      logger.error(`LDAP authentication failed: ${message}`);
+      if (isError(error) && error.name === 'NotAllowedError') {
+        res.status(403).json({
+          error: { name: 'NotAllowedError', message },
         });
+        return;
       }
+      res.status(401).json({
+        error: {
+          name: 'AuthenticationError',
+          message,
+          ...(error instanceof LdapAuthError && { reason: error.reason }),
+        },
+      });
     }
 
     return {
@@ -204,21 +900,147 @@ export function createLdapProviderFactory(
       },
 
       /**
-       * Refresh handler — delegates to Backstage's built-in session refresh.
+       * Handles POST /api/auth/ldap/password
+       *
+       * Expects JSON body: { username, password, newPassword }
+       * Changes the expired password of the user and then signs in with
+       * the new password.
        */
-      async refresh(_req: Request, res: Response): Promise<void> {
-        // Backstage handles refresh via the cookie-based session.
-        // For credential-based auth, we don't support refresh tokens.
-        res.status(501).json({
-          error: 'Token refresh is managed by the Backstage session layer',
-        });
+      async changePassword(req: Request, res: Response): Promise<void> {
+        const { newPassword } = (req.body ?? {}) as { newPassword?: string };
+        if (!newPassword || typeof newPassword !== 'string') {
+          res.status(400).json({
+            error: 'Missing newPassword in request body',
+          });
+          return;
+        }
+        if (newPassword === req.body.password) {
+          res.status(400).json({
+            error: 'The new password must differ from the old one',
+          });
+          return;
+        }
+
+        await handleCredentialAuth(req, res, newPassword);
       },
 
       /**
-       * Logout handler — clears the session.
+       * Handles GET /api/auth/ldap/refresh
+       *
+       * Looks the user of the refresh cookie up in the directory again,
+       * checks that they are still enabled and allowed to sign in, and
+       * issues a fresh Backstage token.
        */
-      async logout(_req: Request, res: Response): Promise<void> {
-        res.status(200).json({ ok: true });
+      async refresh(req: Request, res: Response): Promise<void> {
+        const audit: AuditMeta = {};
+        const auditEvent = await createAuditEvent(
+          req,
+          'ldap-session-refresh',
+          'low',
+          {},
+        );
+        try {
+          if (req.headers['x-requested-with'] !== 'XMLHttpRequest') {
+            throw new AuthenticationError('Invalid X-Requested-With header');
+          }
+
+          const environment = getLdapEnvironment(req);
+          audit.environment = environment.name;
+          const token = req.cookies?.[REFRESH_COOKIE_NAME];
+          const session = token
+            ? environment.refreshTokens?.verify(token)
+            : undefined;
+          const directory = environment.directories.find(
+            d => d.name === session?.directory,
+          );
+          if (
+            !session ||
+            !directory ||
+            (await environment.sessionRevocations?.isRevoked(session))
+          ) {
+            throw new AuthenticationError(
+              'The LDAP session has expired, sign in again',
+            );
+          }
+
+          audit.username = session.username;
+          audit.directory = directory.name;
+
+          const userInfo = await readLdapUser(
+            session.username,
+            directory.ldapConfig,
+            logger,
+          );
+          await completeSignIn(
+            res,
+            environment,
+            userInfo,
+            directory,
+            session,
+            audit,
+          );
+          await auditEvent?.success({ meta: audit });
+        } catch (error: unknown) {
+          await failAuditEvent(auditEvent, error, audit);
+          if (!isError(error) || error.name !== 'ServiceUnavailableError') {
+            res.clearCookie(REFRESH_COOKIE_NAME, cookieOptions);
+          }
+          sendError(res, error);
+        }
+      },
+
+      /**
+       * Handles POST /api/auth/ldap/logout
+       *
+       * Revokes the session of the refresh cookie and clears the cookie.
+       * With the `everywhere=true` query, every session of the user is
+       * revoked, on any device.
+       */
+      async logout(req: Request, res: Response): Promise<void> {
+        const everywhere = req.query?.everywhere === 'true';
+        const audit: AuditMeta = { everywhere };
+        const auditEvent = await createAuditEvent(
+          req,
+          'ldap-sign-out',
+          'low',
+          audit,
+        );
+        try {
+          if (req.headers['x-requested-with'] !== 'XMLHttpRequest') {
+            throw new AuthenticationError('Invalid X-Requested-With header');
+          }
+
+          const environment = getLdapEnvironment(req);
+          audit.environment = environment.name;
+          const token = req.cookies?.[REFRESH_COOKIE_NAME];
+          const session = token
+            ? environment.refreshTokens?.verify(token)
+            : undefined;
+          res.clearCookie(REFRESH_COOKIE_NAME, cookieOptions);
+
+          if (session) {
+            audit.username = session.username;
+            audit.uid = session.uid;
+            audit.directory = session.directory;
+            const { sessionRevocations } = environment;
+            if (everywhere) {
+              await sessionRevocations?.revokeAll(session);
+            } else {
+              await sessionRevocations?.revoke(session);
+            }
+            logger.info(
+              `LDAP user '${session.username}' of directory '${
+                session.directory
+              }' signed out${everywhere ? ' of all sessions' : ''}`,
+            );
+          }
+
+          await auditEvent?.success({ meta: audit });
+          res.status(200).json({ ok: true });
+        } catch (error: unknown) {
+          await failAuditEvent(auditEvent, error, audit);
+          sendError(res, error);
+        }
       },
     };
   };
@@ -14,10 +14,14 @@
  * limitations under the License.
  */
 
+import { jest, describe, it, expect } from '@jest/globals';
 import {
   ldapSignInResolvers,
   usernameMatchingUserEntityName,
   emailMatchingUserEntityAnnotation,
+  dnMatchingUserEntityAnnotation,
+  uuidMatchingUserEntityAnnotation,
+  usernameWithoutCatalogUser,
 } from './resolvers';
 
 describe('ldapSignInResolvers', () => {
@@ -25,6 +29,7 @@ describe('ldapSignInResolvers', () => {
     expect(ldapSignInResolvers).toBeDefined();
     expect(ldapSignInResolvers.usernameMatchingUserEntityName).toBeDefined();
     expect(ldapSignInResolvers.emailMatchingUserEntityAnnotation).toBeDefined();
+    expect(ldapSignInResolvers.usernameWithoutCatalogUser).toBeDefined();
   });
 
   it('should export individual resolver factories', () => {
@@ -32,3 +37,209 @@ describe('ldapSignInResolvers', () => {
     expect(emailMatchingUserEntityAnnotation).toBeDefined();
   });
 });
+
+describe('usernameMatchingUserEntityName', () => {
+  const userInfo = { dn: 'uid=jdoe', uid: 'jdoe', attributes: {} };
+  const entity = {
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'User',
+    metadata: { name: 'jdoe', namespace: 'default' },
+  };
+
+  function createContext() {
+    return {
+      signInWithCatalogUser: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ token: 'a' }),
+      findCatalogUser: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ entity }),
+      resolveOwnershipEntityRefs: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({
+          ownershipEntityRefs: ['user:default/jdoe', 'group:default/devs'],
+        }),
+      issueToken: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ token: 'b' }),
+    };
+  }
+
+  const resolver = usernameMatchingUserEntityName();
+
+  it('should sign in with the catalog user', async () => {
+    const ctx = createContext();
+
+    await resolver({ profile: {}, result: { userInfo } }, ctx as any);
+
+    expect(ctx.signInWithCatalogUser).toHaveBeenCalledWith({
+      entityRef: { name: 'jdoe' },
+    });
+  });
+
+  it('should add the entity refs mapped from LDAP groups to the claims', async () => {
+    const ctx = createContext();
+
+    await resolver(
+      {
+        profile: {},
+        result: {
+          userInfo,
+          groupEntityRefs: ['group:default/devs', 'group:default/platform'],
+        },
+      },
+      ctx as any,
+    );
+
+    expect(ctx.findCatalogUser).toHaveBeenCalledWith({
+      entityRef: { name: 'jdoe' },
+    });
+    expect(ctx.issueToken).toHaveBeenCalledWith({
+      claims: {
+        sub: 'user:default/jdoe',
+        ent: [
+          'user:default/jdoe',
+          'group:default/devs',
+          'group:default/platform',
+        ],
+      },
+    });
+  });
+});
+
+describe('usernameWithoutCatalogUser', () => {
+  it('should require the dangerous option to be set', () => {
+    expect(() => usernameWithoutCatalogUser()).toThrow(
+      'requires the dangerouslyAllowSignInWithoutUserInCatalog option',
+    );
+  });
+
+  it('should issue a token with ownership from the LDAP groups', async () => {
+    const resolver = usernameWithoutCatalogUser({
+      dangerouslyAllowSignInWithoutUserInCatalog: true,
+      namespace: 'sandbox',
+    });
+    const ctx = {
+      issueToken: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ token: 'a' }),
+      signInWithCatalogUser: jest.fn(),
+    };
+
+    await resolver(
+      {
+        profile: {},
+        result: {
+          userInfo: {
+            dn: 'uid=JDoe,ou=users,dc=example,dc=org',
+            uid: 'JDoe',
+            memberOf: [
+              'cn=Platform Eng,ou=groups,dc=example,dc=org',
+              'cn=devs,ou=groups,dc=example,dc=org',
+            ],
+            attributes: {},
+          },
+          groupEntityRefs: ['group:default/devs'],
+        },
+      },
+      ctx as any,
+    );
+
+    expect(ctx.signInWithCatalogUser).not.toHaveBeenCalled();
+    expect(ctx.issueToken).toHaveBeenCalledWith({
+      claims: {
+        sub: 'user:sandbox/jdoe',
+        ent: [
+          'user:sandbox/jdoe',
+          'group:sandbox/platform-eng',
+          'group:sandbox/devs',
+          'group:default/devs',
+        ],
+      },
+    });
+  });
+
+  it('should namespace the entity refs by directory', async () => {
+    const resolver = usernameWithoutCatalogUser({
+      dangerouslyAllowSignInWithoutUserInCatalog: true,
+      namespace: '{{directory}}',
+    });
+    const ctx = {
+      issueToken: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ token: 'a' }),
+      signInWithCatalogUser: jest.fn(),
+    };
+
+    await resolver(
+      {
+        profile: {},
+        result: {
+          userInfo: { dn: 'uid=jdoe', uid: 'jdoe', attributes: {} },
+          directory: 'Corp',
+        },
+      },
+      ctx as any,
+    );
+
+    expect(ctx.issueToken).toHaveBeenCalledWith({
+      claims: { sub: 'user:corp/jdoe', ent: ['user:corp/jdoe'] },
+    });
+  });
+});
+
+describe('annotation matching resolvers', () => {
+  const userInfo = {
+    dn: 'uid=jdoe,ou=users,dc=example,dc=org',
+    uid: 'jdoe',
+    uuid: '6fb0ce0e-9d2c-103d-8e5a-39c5f0d3a4b1',
+    attributes: {},
+  };
+
+  function createContext() {
+    return {
+      signInWithCatalogUser: jest
+        .fn<(...args: any[]) => any>()
+        .mockResolvedValue({ token: 'a' }),
+    };
+  }
+
+  it('should match the ldap-dn annotation', async () => {
+    const ctx = createContext();
+
+    await dnMatchingUserEntityAnnotation()(
+      { profile: {}, result: { userInfo } },
+      ctx as any,
+    );
+
+    expect(ctx.signInWithCatalogUser).toHaveBeenCalledWith({
+      annotations: {
+        'backstage.io/ldap-dn': 'uid=jdoe,ou=users,dc=example,dc=org',
+      },
+    });
+  });
+
+  it('should match the ldap-uuid annotation', async () => {
+    const ctx = createContext();
+
+    await uuidMatchingUserEntityAnnotation()(
+      { profile: {}, result: { userInfo } },
+      ctx as any,
+    );
+
+    expect(ctx.signInWithCatalogUser).toHaveBeenCalledWith({
+      annotations: {
+        'backstage.io/ldap-uuid': '6fb0ce0e-9d2c-103d-8e5a-39c5f0d3a4b1',
+      },
+    });
+  });
+
+  it('should fail without an immutable id', async () => {
+    await expect(
+      uuidMatchingUserEntityAnnotation()(
+        { profile: {}, result: { userInfo: { ...userInfo, uuid: undefined } } },
+        createContext() as any,
+      ),
+    ).rejects.toThrow('cannot resolve to a Backstage user');
+  });
+});
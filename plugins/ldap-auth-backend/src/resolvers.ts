@@ -14,12 +14,41 @@
  * limitations under the License.
  */
 
+import { stringifyEntityRef } from '@backstage/catalog-model';
+import { z } from 'zod/v3';
 import {
   createSignInResolverFactory,
+  type AuthResolverCatalogUserQuery,
+  type AuthResolverContext,
   type SignInInfo,
 } from '@backstage/plugin-auth-node';
+import { groupName } from './access';
 import type { LdapAuthResult } from './types';
 
+/**
+ * Signs in as the catalog user matching the query, adding the entity refs
+ * mapped from the LDAP groups of the user to the ownership claims.
+ */
+async function signInWithCatalogUser(
+  info: SignInInfo<LdapAuthResult>,
+  ctx: AuthResolverContext,
+  query: AuthResolverCatalogUserQuery,
+) {
+  const groupEntityRefs = info.result.groupEntityRefs ?? [];
+  if (groupEntityRefs.length === 0) {
+    return ctx.signInWithCatalogUser(query);
+  }
+
+  const { entity } = await ctx.findCatalogUser(query);
+  const { ownershipEntityRefs } = await ctx.resolveOwnershipEntityRefs(entity);
+  return ctx.issueToken({
+    claims: {
+      sub: stringifyEntityRef(entity),
+      ent: Array.from(new Set([...ownershipEntityRefs, ...groupEntityRefs])),
+    },
+  });
+}
+
 /**
  * Sign-in resolver that matches the LDAP `uid` to a Backstage `User` entity
  * whose `metadata.name` equals the uid.
@@ -31,7 +60,7 @@ export const usernameMatchingUserEntityName = createSignInResolverFactory({
     return async (info: SignInInfo<LdapAuthResult>, ctx) => {
       const { uid } = info.result.userInfo;
 
-      return ctx.signInWithCatalogUser({
+      return signInWithCatalogUser(info, ctx, {
         entityRef: { name: uid },
       });
     };
@@ -54,7 +83,7 @@ export const emailMatchingUserEntityAnnotation = createSignInResolverFactory({
         );
       }
 
-      return ctx.signInWithCatalogUser({
+      return signInWithCatalogUser(info, ctx, {
         annotations: {
           'backstage.io/ldap-email': email,
         },
@@ -63,6 +92,117 @@ export const emailMatchingUserEntityAnnotation = createSignInResolverFactory({
   },
 });
 
+/**
+ * Sign-in resolver that matches the LDAP user's DN to a Backstage `User`
+ * entity annotated with `backstage.io/ldap-dn`, as written by the LDAP org
+ * catalog provider.
+ *
+ * @public
+ */
+export const dnMatchingUserEntityAnnotation = createSignInResolverFactory({
+  create() {
+    return async (info: SignInInfo<LdapAuthResult>, ctx) => {
+      return signInWithCatalogUser(info, ctx, {
+        annotations: {
+          'backstage.io/ldap-dn': info.result.userInfo.dn,
+        },
+      });
+    };
+  },
+});
+
+/**
+ * Sign-in resolver that matches the LDAP user's immutable id, from
+ * `entryUUID`, `objectGUID` or `ipaUniqueID`, to a Backstage `User` entity
+ * annotated with `backstage.io/ldap-uuid`, as written by the LDAP org
+ * catalog provider. Unlike the name or email, the id survives renames.
+ *
+ * @public
+ */
+export const uuidMatchingUserEntityAnnotation = createSignInResolverFactory({
+  create() {
+    return async (info: SignInInfo<LdapAuthResult>, ctx) => {
+      const { uuid } = info.result.userInfo;
+      if (!uuid) {
+        throw new Error(
+          'LDAP user does not have an entryUUID, objectGUID or ipaUniqueID attribute, cannot resolve to a Backstage user',
+        );
+      }
+
+      return signInWithCatalogUser(info, ctx, {
+        annotations: {
+          'backstage.io/ldap-uuid': uuid,
+        },
+      });
+    };
+  },
+});
+
+/**
+ * Sign-in resolver that issues a token for the LDAP `uid` without looking up
+ * a `User` entity in the catalog, for instances without org data. The token
+ * owns `group:<namespace>/<cn>` for each LDAP group of the user, plus the
+ * refs mapped by `groupMapping`.
+ *
+ * Since anyone in the directory can sign in, it has to be enabled with the
+ * `dangerouslyAllowSignInWithoutUserInCatalog` option.
+ *
+ * @public
+ */
+export const usernameWithoutCatalogUser = createSignInResolverFactory({
+  optionsSchema: z
+    .object({
+      dangerouslyAllowSignInWithoutUserInCatalog: z.boolean().optional(),
+      namespace: z.string().optional(),
+    })
+    .optional(),
+  create(options = {}) {
+    if (!options.dangerouslyAllowSignInWithoutUserInCatalog) {
+      throw new Error(
+        'The usernameWithoutCatalogUser resolver requires the dangerouslyAllowSignInWithoutUserInCatalog option to be set',
+      );
+    }
+    return async (info: SignInInfo<LdapAuthResult>, ctx) => {
+      const { userInfo, groupEntityRefs = [], directory } = info.result;
+      const namespace = (options.namespace ?? 'default').replace(
+        /\{\{directory\}\}/g,
+        () => toEntityName(directory ?? 'default'),
+      );
+      const groups = userInfo.groups ?? userInfo.memberOf ?? [];
+
+      const sub = stringifyEntityRef({
+        kind: 'User',
+        namespace,
+        name: toEntityName(userInfo.uid),
+      });
+      const groupRefs = groups.map(group =>
+        stringifyEntityRef({
+          kind: 'Group',
+          namespace,
+          name: toEntityName(groupName(group)),
+        }),
+      );
+
+      return ctx.issueToken({
+        claims: {
+          sub,
+          ent: Array.from(new Set([sub, ...groupRefs, ...groupEntityRefs])),
+        },
+      });
+    };
+  },
+});
+
+/**
+ * Turns an LDAP uid or group CN into a valid entity name.
+ */
+function toEntityName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '');
+}
+
 /**
  * All built-in LDAP sign-in resolvers.
  *
@@ -71,4 +211,7 @@ export const emailMatchingUserEntityAnnotation = createSignInResolverFactory({
 export const ldapSignInResolvers = {
   usernameMatchingUserEntityName,
   emailMatchingUserEntityAnnotation,
+  dnMatchingUserEntityAnnotation,
+  uuidMatchingUserEntityAnnotation,
+  usernameWithoutCatalogUser,
 };
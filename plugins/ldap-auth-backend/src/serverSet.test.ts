@@ -0,0 +1,162 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  jest,
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import { LdapServerSet } from './serverSet';
+
+const mockLogger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+  child: jest.fn<any>().mockReturnThis(),
+} as any;
+
+class ResultCodeError extends Error {
+  code = 49;
+}
+
+const urls = ['ldap://dc1', 'ldap://dc2', 'ldap://dc3'];
+
+describe('LdapServerSet', () => {
+  const probe = jest.fn<(url: string) => Promise<void>>();
+  let servers: LdapServerSet;
+
+  function createServerSet(strategy: 'failover' | 'roundRobin') {
+    return new LdapServerSet({
+      urls,
+      strategy,
+      maxFailures: 2,
+      cooldown: 30000,
+      probe,
+      logger: mockLogger,
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    servers = createServerSet('failover');
+  });
+
+  afterEach(() => {
+    servers.close();
+    jest.useRealTimers();
+  });
+
+  it('should always prefer the first server with failover', async () => {
+    const attempt = jest.fn(async (url: string) => url);
+
+    await expect(servers.run(attempt)).resolves.toBe('ldap://dc1');
+    await expect(servers.run(attempt)).resolves.toBe('ldap://dc1');
+  });
+
+  it('should rotate through the servers with roundRobin', async () => {
+    servers = createServerSet('roundRobin');
+    const attempt = async (url: string) => url;
+
+    const used = [
+      await servers.run(attempt),
+      await servers.run(attempt),
+      await servers.run(attempt),
+      await servers.run(attempt),
+    ];
+
+    expect(used).toEqual([
+      'ldap://dc1',
+      'ldap://dc2',
+      'ldap://dc3',
+      'ldap://dc1',
+    ]);
+  });
+
+  it('should move on to the next server on connection errors', async () => {
+    const attempt = jest.fn(async (url: string) => {
+      if (url === 'ldap://dc1') {
+        throw new Error('connect ECONNREFUSED');
+      }
+      return url;
+    });
+
+    await expect(servers.run(attempt)).resolves.toBe('ldap://dc2');
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not move on when the server returns an LDAP error', async () => {
+    const attempt = jest.fn(async () => {
+      throw new ResultCodeError('Invalid credentials');
+    });
+
+    await expect(servers.run(attempt)).rejects.toThrow('Invalid credentials');
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the last error when all servers fail', async () => {
+    await expect(
+      servers.run(async url => {
+        throw new Error(`connect EHOSTUNREACH ${url}`);
+      }),
+    ).rejects.toThrow('connect EHOSTUNREACH ldap://dc3');
+  });
+
+  it('should take a failing server out of rotation and retry it in the background', async () => {
+    let dc1Up = false;
+    const attempt = jest.fn(async (url: string) => {
+      if (url === 'ldap://dc1' && !dc1Up) {
+        throw new Error('connect ETIMEDOUT');
+      }
+      return url;
+    });
+
+    await servers.run(attempt);
+    await servers.run(attempt);
+    attempt.mockClear();
+
+    // dc1 is skipped while it is out of rotation
+    await expect(servers.run(attempt)).resolves.toBe('ldap://dc2');
+    expect(attempt).toHaveBeenCalledTimes(1);
+
+    probe.mockRejectedValueOnce(new Error('connect ETIMEDOUT'));
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(probe).toHaveBeenCalledWith('ldap://dc1');
+    await expect(servers.run(attempt)).resolves.toBe('ldap://dc2');
+
+    dc1Up = true;
+    probe.mockResolvedValueOnce(undefined);
+    await jest.advanceTimersByTimeAsync(30000);
+    await expect(servers.run(attempt)).resolves.toBe('ldap://dc1');
+    expect(mockLogger.info).toHaveBeenCalledWith(
+      'LDAP server ldap://dc1 is back in rotation',
+    );
+  });
+
+  it('should still try servers that are out of rotation as a last resort', async () => {
+    const down = async () => {
+      throw new Error('connect ECONNREFUSED');
+    };
+    await expect(servers.run(down)).rejects.toThrow();
+    await expect(servers.run(down)).rejects.toThrow();
+
+    await expect(servers.run(async url => url)).resolves.toBe('ldap://dc1');
+  });
+});
@@ -0,0 +1,167 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { LoggerService } from '@backstage/backend-plugin-api';
+import { isConnectionError } from './errors';
+
+/**
+ * How the server for a new connection is picked.
+ *
+ * - `failover` - always use the first healthy server in the configured order
+ * - `roundRobin` - rotate through the healthy servers
+ */
+export type LdapServerStrategy = 'failover' | 'roundRobin';
+
+/**
+ * Options for creating an {@link LdapServerSet}.
+ *
+ * @internal
+ */
+export interface LdapServerSetOptions {
+  urls: string[];
+  strategy: LdapServerStrategy;
+  /** Consecutive connection errors after which a server is taken out */
+  maxFailures: number;
+  /** Milliseconds to wait before a failed server is retried */
+  cooldown: number;
+  /** Checks whether a server is reachable again, rejects if it isn't */
+  probe: (url: string) => Promise<void>;
+  logger: LoggerService;
+}
+
+interface ServerHealth {
+  url: string;
+  failures: number;
+  /** Set while the server is taken out of rotation */
+  retryTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Tracks the health of the configured LDAP servers and runs connection
+ * attempts against them according to the configured strategy.
+ *
+ * A server is taken out of rotation after `maxFailures` consecutive
+ * connection errors. It is then probed in the background every `cooldown`
+ * milliseconds and put back as soon as a probe succeeds. When every server
+ * is out of rotation, all of them are still tried in order rather than
+ * failing outright.
+ *
+ * @internal
+ */
+export class LdapServerSet {
+  private readonly options: LdapServerSetOptions;
+  private readonly servers: ServerHealth[];
+  private next = 0;
+
+  constructor(options: LdapServerSetOptions) {
+    this.options = options;
+    this.servers = options.urls.map(url => ({ url, failures: 0 }));
+  }
+
+  /**
+   * Runs a connection attempt, moving on to the next server whenever it
+   * fails with a connection error.
+   */
+  async run<T>(attempt: (url: string) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const server of this.candidates()) {
+      try {
+        const result = await attempt(server.url);
+        this.recordSuccess(server);
+        return result;
+      } catch (error) {
+        if (!isConnectionError(error)) {
+          this.recordSuccess(server);
+          throw error;
+        }
+        lastError = error;
+        this.recordFailure(server, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Stops all background retries.
+   */
+  close() {
+    for (const server of this.servers) {
+      clearTimeout(server.retryTimer);
+      server.retryTimer = undefined;
+    }
+  }
+
+  private candidates(): ServerHealth[] {
+    const healthy = this.servers.filter(s => !s.retryTimer);
+    const unhealthy = this.servers.filter(s => s.retryTimer);
+
+    if (this.options.strategy === 'roundRobin' && healthy.length > 0) {
+      const start = this.next % healthy.length;
+      this.next = start + 1;
+      return [
+        ...healthy.slice(start),
+        ...healthy.slice(0, start),
+        ...unhealthy,
+      ];
+    }
+
+    return [...healthy, ...unhealthy];
+  }
+
+  private recordSuccess(server: ServerHealth) {
+    server.failures = 0;
+    if (server.retryTimer) {
+      clearTimeout(server.retryTimer);
+      server.retryTimer = undefined;
+      this.options.logger.info(`LDAP server ${server.url} is back in rotation`);
+    }
+  }
+
+  private recordFailure(server: ServerHealth, error: unknown) {
+    const { maxFailures, logger } = this.options;
+    server.failures += 1;
+    logger.warn(`Failed to connect to LDAP server ${server.url}: ${error}`);
+
+    if (server.failures >= maxFailures && !server.retryTimer) {
+      logger.warn(
+        `Taking LDAP server ${server.url} out of rotation after ${server.failures} connection errors`,
+      );
+      this.scheduleRetry(server);
+    }
+  }
+
+  private scheduleRetry(server: ServerHealth) {
+    server.retryTimer = setTimeout(async () => {
+      try {
+        await this.options.probe(server.url);
+        this.recordSuccess(server);
+      } catch (error) {
+        if (!isConnectionError(error)) {
+          // The server answered, so it is reachable again
+          this.recordSuccess(server);
+          return;
+        }
+        this.options.logger.debug(
+          `LDAP server ${server.url} is still unavailable: ${error}`,
+        );
+        this.scheduleRetry(server);
+      }
+    }, this.options.cooldown);
+    server.retryTimer.unref?.();
+  }
+}
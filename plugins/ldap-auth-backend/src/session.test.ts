@@ -0,0 +1,108 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { LdapRefreshTokens, LdapSessionRevocations } from './session';
+
+const config = { enabled: true, secret: 'secret', maxAge: 60000 };
+const session = {
+  id: 'session-1',
+  directory: 'default',
+  username: 'jdoe',
+  uid: 'jdoe',
+  issuedAt: Date.now() - 1000,
+  expiresAt: Date.now() + 60000,
+};
+
+describe('LdapRefreshTokens', () => {
+  it('should open the sessions it sealed', () => {
+    const tokens = new LdapRefreshTokens(config);
+    const token = tokens.issue(session);
+
+    expect(token).not.toContain('jdoe');
+    expect(tokens.verify(token)).toEqual(session);
+    expect(new LdapRefreshTokens(config).verify(token)).toEqual(session);
+  });
+
+  it('should reject tampered, foreign and expired sessions', () => {
+    const tokens = new LdapRefreshTokens(config);
+    const token = tokens.issue(session);
+    const tampered = Buffer.from(token, 'base64url');
+    tampered[tampered.length - 1] ^= 1;
+
+    expect(tokens.verify(tampered.toString('base64url'))).toBeUndefined();
+    expect(tokens.verify('not-a-token')).toBeUndefined();
+    expect(
+      new LdapRefreshTokens({ ...config, secret: 'other' }).verify(token),
+    ).toBeUndefined();
+    expect(
+      tokens.verify(tokens.issue({ ...session, expiresAt: Date.now() - 1 })),
+    ).toBeUndefined();
+  });
+});
+
+describe('LdapSessionRevocations', () => {
+  function createRevocations() {
+    const store = new Map<string, unknown>();
+    const cache = {
+      get: async (key: string) => store.get(key),
+      set: async (key: string, value: unknown) => {
+        store.set(key, value);
+      },
+    } as any;
+    return new LdapSessionRevocations({ cache, maxAge: 60000 });
+  }
+
+  it('should revoke a single session', async () => {
+    const revocations = createRevocations();
+
+    await revocations.revoke(session);
+
+    await expect(revocations.isRevoked(session)).resolves.toBe(true);
+    await expect(
+      revocations.isRevoked({ ...session, id: 'session-2' }),
+    ).resolves.toBe(false);
+  });
+
+  it('should revoke every session of the user issued until then', async () => {
+    const revocations = createRevocations();
+
+    await revocations.revokeAll({ ...session, uid: 'JDoe' });
+
+    await expect(
+      revocations.isRevoked({ ...session, id: 'session-2' }),
+    ).resolves.toBe(true);
+    await expect(
+      revocations.isRevoked({ ...session, issuedAt: Date.now() + 1000 }),
+    ).resolves.toBe(false);
+    await expect(
+      revocations.isRevoked({ ...session, directory: 'other' }),
+    ).resolves.toBe(false);
+  });
+
+  it('should revoke the sessions of the user signed in with another username', async () => {
+    const revocations = createRevocations();
+
+    await revocations.revokeAll(session);
+
+    await expect(
+      revocations.isRevoked({ ...session, username: 'john.doe@example.org' }),
+    ).resolves.toBe(true);
+    await expect(
+      revocations.isRevoked({ ...session, uid: 'asmith', username: 'jdoe' }),
+    ).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'node:crypto';
+import type { CacheService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+
+/**
+ * The state kept in the refresh cookie, which is all that is needed to look
+ * the user up again without their password.
+ *
+ * @internal
+ */
+export interface LdapRefreshSession {
+  /** Random identifier of the session, kept across refreshes */
+  id: string;
+  /** Name of the directory the user signed in to */
+  directory: string;
+  /** The username looked up in the directory, after normalization and routing */
+  username: string;
+  /** The uid of the user's entry, which stays the same whatever username they signed in with */
+  uid: string;
+  /** Milliseconds since the epoch at which the user signed in */
+  issuedAt: number;
+  /** Milliseconds since the epoch after which the session can't be refreshed */
+  expiresAt: number;
+}
+
+/**
+ * Settings of the refresh sessions of an LDAP environment.
+ *
+ * @internal
+ */
+export interface LdapSessionConfig {
+  /** Whether sign-ins set a refresh cookie */
+  enabled: boolean;
+  /** Secret the refresh cookies are encrypted with, sessions stay disabled without it */
+  secret?: string;
+  /** Milliseconds after sign-in for which the session can be refreshed */
+  maxAge: number;
+}
+
+/**
+ * Reads the `session` block of an LDAP environment config.
+ *
+ * @internal
+ */
+export function readLdapSessionConfig(config: Config): LdapSessionConfig {
+  const secret = config.getOptionalString('session.secret');
+  return {
+    enabled: config.getOptionalBoolean('session.enabled') ?? Boolean(secret),
+    secret,
+    maxAge: config.getOptionalNumber('session.maxAge') ?? 604800000,
+  };
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Seals refresh sessions into opaque cookie values with AES-256-GCM, so
+ * that the browser can neither read nor alter them.
+ *
+ * @internal
+ */
+export class LdapRefreshTokens {
+  private readonly key: Buffer;
+  readonly maxAge: number;
+
+  constructor(config: LdapSessionConfig & { secret: string }) {
+    this.key = createHash('sha256').update(config.secret).digest();
+    this.maxAge = config.maxAge;
+  }
+
+  /**
+   * Seals a session into a cookie value.
+   */
+  issue(session: LdapRefreshSession): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(JSON.stringify(session), 'utf8'),
+      cipher.final(),
+    ]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+      'base64url',
+    );
+  }
+
+  /**
+   * Opens a sealed session, or returns undefined if it was tampered with,
+   * sealed with another secret or has expired.
+   */
+  verify(token: string): LdapRefreshSession | undefined {
+    try {
+      const data = Buffer.from(token, 'base64url');
+      const decipher = createDecipheriv(
+        'aes-256-gcm',
+        this.key,
+        data.subarray(0, IV_LENGTH),
+      );
+      decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+      const payload = JSON.parse(
+        Buffer.concat([
+          decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+          decipher.final(),
+        ]).toString('utf8'),
+      ) as LdapRefreshSession;
+      return payload.expiresAt > Date.now() ? payload : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Keeps track of refresh sessions that were ended by signing out. The
+ * cookies themselves can't be withdrawn from the browser or from someone who
+ * copied them, so revoked sessions are remembered in the cache service until
+ * they would have expired anyway.
+ *
+ * @internal
+ */
+export class LdapSessionRevocations {
+  private readonly cache: CacheService;
+  private readonly maxAge: number;
+
+  constructor(options: { cache: CacheService; maxAge: number }) {
+    this.cache = options.cache;
+    this.maxAge = options.maxAge;
+  }
+
+  /**
+   * Revokes a single session.
+   */
+  async revoke(session: LdapRefreshSession): Promise<void> {
+    const ttl = session.expiresAt - Date.now();
+    if (ttl > 0) {
+      await this.cache.set(this.sessionKey(session), true, { ttl });
+    }
+  }
+
+  /**
+   * Revokes every session of the user that was issued until now, on any
+   * device and whatever username it was signed in with.
+   */
+  async revokeAll(session: LdapRefreshSession): Promise<void> {
+    await this.cache.set(this.userKey(session), Date.now(), {
+      ttl: this.maxAge,
+    });
+  }
+
+  /**
+   * Returns whether the session was revoked, on its own or with all other
+   * sessions of the user.
+   */
+  async isRevoked(session: LdapRefreshSession): Promise<boolean> {
+    const [revoked, revokedBefore] = await Promise.all([
+      this.cache.get<boolean>(this.sessionKey(session)),
+      this.cache.get<number>(this.userKey(session)),
+    ]);
+    return (
+      Boolean(revoked) ||
+      (revokedBefore !== undefined && session.issuedAt <= revokedBefore)
+    );
+  }
+
+  private sessionKey(session: LdapRefreshSession) {
+    return `ldap:session:revoked:${session.id}`;
+  }
+
+  private userKey(session: LdapRefreshSession) {
+    return `ldap:session:user:${
+      session.directory
+    }:${session.uid.toLowerCase()}`;
+  }
+}
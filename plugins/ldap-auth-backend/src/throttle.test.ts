@@ -0,0 +1,166 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  jest,
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+} from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import { LoginThrottle, readLoginThrottleConfig } from './throttle';
+
+function createMockCache() {
+  const store = new Map<string, any>();
+  return {
+    get: jest.fn(async (key: string) => store.get(key)),
+    set: jest.fn(async (key: string, value: any) => {
+      store.set(key, structuredClone(value));
+    }),
+    delete: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    withOptions: jest.fn(),
+  } as any;
+}
+
+describe('readLoginThrottleConfig', () => {
+  it('should apply defaults', () => {
+    expect(readLoginThrottleConfig(new ConfigReader({}))).toEqual({
+      enabled: true,
+      window: 900000,
+      maxFailuresPerUser: 5,
+      backoff: 1000,
+      maxBackoff: 900000,
+    });
+  });
+});
+
+describe('LoginThrottle', () => {
+  let cache: ReturnType<typeof createMockCache>;
+  let throttle: LoginThrottle;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    cache = createMockCache();
+    throttle = new LoginThrottle({
+      cache,
+      config: {
+        enabled: true,
+        window: 900000,
+        maxFailuresPerUser: 3,
+        maxFailuresPerIp: 5,
+        backoff: 1000,
+        maxBackoff: 4000,
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow attempts below the limit', async () => {
+    await throttle.recordFailure('jdoe', '10.0.0.1');
+    await throttle.recordFailure('jdoe', '10.0.0.1');
+
+    await expect(throttle.check('jdoe', '10.0.0.1')).resolves.toBeUndefined();
+  });
+
+  it('should block a username with exponential backoff', async () => {
+    await throttle.recordFailure('jdoe');
+    await throttle.recordFailure('jdoe');
+    await throttle.recordFailure('jdoe');
+    await expect(throttle.check('jdoe')).resolves.toBe(1000);
+
+    await throttle.recordFailure('jdoe');
+    await expect(throttle.check('jdoe')).resolves.toBe(2000);
+
+    await throttle.recordFailure('jdoe');
+    await throttle.recordFailure('jdoe');
+    await expect(throttle.check('jdoe')).resolves.toBe(4000);
+
+    jest.advanceTimersByTime(4000);
+    await expect(throttle.check('jdoe')).resolves.toBeUndefined();
+  });
+
+  it('should count usernames case-insensitively', async () => {
+    await throttle.recordFailure('JDoe');
+    await throttle.recordFailure(' jdoe');
+    await throttle.recordFailure('jdoe');
+
+    await expect(throttle.check('JDOE')).resolves.toBe(1000);
+  });
+
+  it('should block a client IP across usernames', async () => {
+    for (const username of ['a', 'b', 'c', 'd', 'e']) {
+      await throttle.recordFailure(username, '10.0.0.1');
+    }
+
+    await expect(throttle.check('f', '10.0.0.1')).resolves.toBe(1000);
+    await expect(throttle.check('f', '10.0.0.2')).resolves.toBeUndefined();
+  });
+
+  it('should not count client IPs without a limit for them', async () => {
+    throttle = new LoginThrottle({
+      cache,
+      config: {
+        enabled: true,
+        window: 900000,
+        maxFailuresPerUser: 3,
+        backoff: 1000,
+        maxBackoff: 4000,
+      },
+    });
+    for (const username of ['a', 'b', 'c', 'd', 'e']) {
+      await throttle.recordFailure(username, '10.0.0.1');
+    }
+
+    await expect(throttle.check('f', '10.0.0.1')).resolves.toBeUndefined();
+    expect(cache.set).not.toHaveBeenCalledWith(
+      'ldap:throttle:ip:10.0.0.1',
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('should reset the username counter on success', async () => {
+    await throttle.recordFailure('jdoe', '10.0.0.1');
+    await throttle.recordFailure('jdoe', '10.0.0.1');
+    await throttle.recordSuccess('jdoe');
+    await throttle.recordFailure('jdoe', '10.0.0.1');
+
+    await expect(throttle.check('jdoe')).resolves.toBeUndefined();
+    expect(cache.delete).toHaveBeenCalledWith('ldap:throttle:user:jdoe');
+  });
+
+  it('should store counters with a TTL', async () => {
+    await throttle.recordFailure('jdoe', '10.0.0.1');
+
+    expect(cache.set).toHaveBeenCalledWith(
+      'ldap:throttle:user:jdoe',
+      { failures: 1 },
+      { ttl: 900000 },
+    );
+    expect(cache.set).toHaveBeenCalledWith(
+      'ldap:throttle:ip:10.0.0.1',
+      { failures: 1 },
+      { ttl: 900000 },
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { CacheService } from '@backstage/backend-plugin-api';
+import type { Config } from '@backstage/config';
+
+/**
+ * Limits for failed sign-in attempts.
+ *
+ * @internal
+ */
+export interface LoginThrottleConfig {
+  /** Whether throttling is enabled */
+  enabled: boolean;
+  /** Milliseconds for which failed attempts are remembered */
+  window: number;
+  /** Failed attempts per username before it is blocked */
+  maxFailuresPerUser: number;
+  /** Failed attempts per client IP before it is blocked, if IPs are counted */
+  maxFailuresPerIp?: number;
+  /** Milliseconds of the first block, doubled with every further failure */
+  backoff: number;
+  /** Upper limit for the block duration in milliseconds */
+  maxBackoff: number;
+}
+
+type FailureRecord = {
+  failures: number;
+  blockedUntil?: number;
+};
+
+/**
+ * Reads the `throttling` block of an LDAP environment config.
+ *
+ * @internal
+ */
+export function readLoginThrottleConfig(config: Config): LoginThrottleConfig {
+  return {
+    enabled: config.getOptionalBoolean('throttling.enabled') ?? true,
+    window: config.getOptionalNumber('throttling.window') ?? 900000,
+    maxFailuresPerUser:
+      config.getOptionalNumber('throttling.maxFailuresPerUser') ?? 5,
+    maxFailuresPerIp: config.getOptionalNumber('throttling.maxFailuresPerIp'),
+    backoff: config.getOptionalNumber('throttling.backoff') ?? 1000,
+    maxBackoff: config.getOptionalNumber('throttling.maxBackoff') ?? 900000,
+  };
+}
+
+/**
+ * Counts failed sign-in attempts per username and, if a limit is set for
+ * them, per client IP, and blocks further attempts with an exponentially
+ * growing delay once a limit is reached. The counters live in the cache
+ * service so that the limits hold across backend replicas.
+ *
+ * @internal
+ */
+export class LoginThrottle {
+  private readonly cache: CacheService;
+  private readonly config: LoginThrottleConfig;
+
+  constructor(options: { cache: CacheService; config: LoginThrottleConfig }) {
+    this.cache = options.cache;
+    this.config = options.config;
+  }
+
+  /**
+   * Returns the number of milliseconds until the next attempt is allowed,
+   * or undefined if the attempt may proceed.
+   */
+  async check(username: string, ip?: string): Promise<number | undefined> {
+    const records = await Promise.all(
+      this.keys(username, ip).map(key => this.cache.get<FailureRecord>(key)),
+    );
+    const now = Date.now();
+    const waits = records
+      .map(record => (record?.blockedUntil ?? 0) - now)
+      .filter(wait => wait > 0);
+    return waits.length > 0 ? Math.max(...waits) : undefined;
+  }
+
+  /**
+   * Records a failed attempt for the username and client IP.
+   */
+  async recordFailure(username: string, ip?: string): Promise<void> {
+    const [userKey, ipKey] = this.keys(username, ip);
+    const { maxFailuresPerUser, maxFailuresPerIp } = this.config;
+    await Promise.all([
+      this.increment(userKey, maxFailuresPerUser),
+      ipKey && maxFailuresPerIp && this.increment(ipKey, maxFailuresPerIp),
+    ]);
+  }
+
+  /**
+   * Clears the failed attempts of the username after a successful sign-in.
+   * The client IP counter is kept, so that one valid account can't be used
+   * to reset it.
+   */
+  async recordSuccess(username: string): Promise<void> {
+    const [userKey] = this.keys(username);
+    await this.cache.delete(userKey);
+  }
+
+  private async increment(key: string, maxFailures: number) {
+    const { window, backoff, maxBackoff } = this.config;
+    const record = (await this.cache.get<FailureRecord>(key)) ?? {
+      failures: 0,
+    };
+
+    const now = Date.now();
+    record.failures += 1;
+    if (record.failures >= maxFailures) {
+      const delay = Math.min(
+        backoff * 2 ** (record.failures - maxFailures),
+        maxBackoff,
+      );
+      record.blockedUntil = now + delay;
+    }
+
+    const ttl = Math.max(window, (record.blockedUntil ?? now) - now);
+    await this.cache.set(key, record, { ttl });
+  }
+
+  private keys(username: string, ip?: string): string[] {
+    const keys = [`ldap:throttle:user:${username.trim().toLowerCase()}`];
+    if (ip && this.config.maxFailuresPerIp) {
+      keys.push(`ldap:throttle:ip:${ip}`);
+    }
+    return keys;
+  }
+}
@@ -0,0 +1,126 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { readFileSync } from 'node:fs';
+import { createPrivateKey, X509Certificate } from 'node:crypto';
+import type { ConnectionOptions, SecureVersion } from 'node:tls';
+import type { Config } from '@backstage/config';
+import type { LdapClientConfig } from './types';
+
+const SECURE_VERSIONS: SecureVersion[] = [
+  'TLSv1',
+  'TLSv1.1',
+  'TLSv1.2',
+  'TLSv1.3',
+];
+
+/**
+ * Reads the `tls` block of an LDAP environment config. Certificates and keys
+ * may be given as inline PEM or as a path to a PEM file, and are loaded and
+ * validated here so that mistakes surface at startup.
+ *
+ * @internal
+ */
+export function readLdapTlsConfig(config: Config): LdapClientConfig['tls'] {
+  const ca = readPem(config, 'tls.ca');
+  const cert = readPem(config, 'tls.cert');
+  const key = readPem(config, 'tls.key');
+
+  if (ca) {
+    const certificates = ca.match(
+      /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g,
+    );
+    if (!certificates) {
+      throw new Error('LDAP tls.ca does not contain any PEM certificates');
+    }
+    certificates.forEach(c => validate('tls.ca', () => new X509Certificate(c)));
+  }
+  if (cert) {
+    validate('tls.cert', () => new X509Certificate(cert));
+  }
+  if (key) {
+    validate('tls.key', () => createPrivateKey(key));
+  }
+  if (Boolean(cert) !== Boolean(key)) {
+    throw new Error('LDAP tls.cert and tls.key must be configured together');
+  }
+
+  const minVersion = config.getOptionalString('tls.minVersion');
+  if (minVersion && !SECURE_VERSIONS.includes(minVersion as SecureVersion)) {
+    throw new Error(
+      `Invalid LDAP tls.minVersion '${minVersion}', must be one of ${SECURE_VERSIONS.join(
+        ', ',
+      )}`,
+    );
+  }
+
+  return {
+    rejectUnauthorized:
+      config.getOptionalBoolean('tls.rejectUnauthorized') ?? true,
+    startTls: config.getOptionalBoolean('tls.startTls') ?? false,
+    required: config.getOptionalBoolean('tls.required') ?? false,
+    ca,
+    cert,
+    key,
+    servername: config.getOptionalString('tls.servername'),
+    minVersion: minVersion as SecureVersion | undefined,
+  };
+}
+
+/**
+ * Builds the Node.js TLS options for ldaps:// and StartTLS connections.
+ *
+ * @internal
+ */
+export function createTlsOptions(
+  tls: LdapClientConfig['tls'],
+): ConnectionOptions {
+  const options: ConnectionOptions = {
+    rejectUnauthorized: tls.rejectUnauthorized,
+  };
+  if (tls.ca) options.ca = tls.ca;
+  if (tls.cert) options.cert = tls.cert;
+  if (tls.key) options.key = tls.key;
+  if (tls.servername) options.servername = tls.servername;
+  if (tls.minVersion) options.minVersion = tls.minVersion;
+  return options;
+}
+
+/**
+ * Returns inline PEM as is, and reads anything else as a file path.
+ */
+function readPem(config: Config, key: string): string | undefined {
+  const value = config.getOptionalString(key);
+  if (!value) {
+    return undefined;
+  }
+  if (value.trimStart().startsWith('-----BEGIN ')) {
+    return value;
+  }
+  try {
+    return readFileSync(value, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read LDAP ${key} from ${value}: ${error}`);
+  }
+}
+
+function validate(key: string, parse: () => unknown) {
+  try {
+    parse();
+  } catch (error) {
+    throw new Error(`Invalid PEM in LDAP ${key}: ${error}`);
+  }
+}
@@ -14,16 +14,24 @@
  * limitations under the License.
  */
 
+/**
+ * How the values of a binary attribute are returned: as base64 or hex
+ * strings, as GUID or SID strings, or as raw buffers for server-side use.
+ */
+export type LdapBinaryEncoding = 'base64' | 'hex' | 'guid' | 'sid' | 'buffer';
+
 /**
  * Configuration for connecting to an LDAP server.
  */
 export interface LdapClientConfig {
-  /** LDAP server URL, e.g. ldaps://ldap.example.com:636 */
-  url: string;
+  /** LDAP server URL(s), e.g. ldaps://ldap.example.com:636 */
+  url: string | string[];
   /** DN to bind as for searching (optional for anonymous bind) */
   bindDN?: string;
   /** Password / credentials for the bind DN */
   bindCredentials?: string;
+  /** DN or UPN template to bind as the user directly, e.g. uid={{username}},ou=users,dc=example,dc=org */
+  bindDNTemplate?: string;
   /** Base DN under which to search for users */
   searchBase: string;
   /** LDAP attribute used as the username (default: uid) */
@@ -32,11 +40,124 @@ export interface LdapClientConfig {
   searchFilter: string;
   /** Additional user attributes to fetch from LDAP */
   userAttributes: string[];
+  /** Binary attributes to fetch from LDAP, by how their values are encoded in the user's attributes */
+  binaryAttributes: Record<string, LdapBinaryEncoding>;
+  /** Attributes or templates such as `{{givenName}} {{sn}}` the profile fields are read from */
+  attributeMap: {
+    /** The user id (default: usernameAttribute) */
+    uid: string;
+    /** The display name (default: displayName) */
+    displayName: string;
+    /** The email address (default: mail) */
+    email: string;
+    /** Binary photo attribute such as jpegPhoto or thumbnailPhoto, or an attribute holding a picture URL */
+    picture?: string;
+    /** Maximum size in bytes of a photo returned as the picture (default: 102400) */
+    pictureMaxSize: number;
+  };
   /** TLS configuration */
   tls: {
     /** Whether to reject unauthorized certificates (default: true) */
     rejectUnauthorized: boolean;
+    /** Whether to upgrade ldap:// connections with StartTLS before binding (default: false) */
+    startTls: boolean;
+    /** Whether to refuse binding with credentials over unencrypted connections (default: false) */
+    required: boolean;
+    /** PEM encoded CA certificates to trust */
+    ca?: string;
+    /** PEM encoded client certificate */
+    cert?: string;
+    /** PEM encoded private key of the client certificate */
+    key?: string;
+    /** Server name to verify the certificate against, if it differs from the URL host */
+    servername?: string;
+    /** Minimum TLS protocol version */
+    minVersion?: 'TLSv1' | 'TLSv1.1' | 'TLSv1.2' | 'TLSv1.3';
+  };
+  /** Timeouts for talking to the LDAP servers */
+  timeouts: {
+    /** Milliseconds to wait for a TCP connection (default: 5000) */
+    connect: number;
+    /** Milliseconds to wait for a bind, search or other operation (default: 10000) */
+    operation: number;
   };
+  /** How connections are spread across multiple servers */
+  servers: {
+    /** `failover` uses the first healthy server, `roundRobin` rotates (default: failover) */
+    strategy: 'failover' | 'roundRobin';
+    /** Consecutive connection errors before a server is taken out of rotation (default: 3) */
+    maxFailures: number;
+    /** Milliseconds between background retries of a failed server (default: 30000) */
+    cooldown: number;
+  };
+  /** Pool of service account connections used for the user search */
+  pool: {
+    /** Maximum number of pooled connections (default: 5) */
+    maxSize: number;
+    /** Milliseconds after which an idle connection is closed (default: 300000) */
+    idleTimeout: number;
+    /** Milliseconds between keep-alive probes of idle connections, 0 disables (default: 60000) */
+    keepAliveInterval: number;
+  };
+  /** Group membership lookup */
+  groups: {
+    /** Base DN under which to search for groups (default: searchBase) */
+    searchBase: string;
+    /** Filter matching the group entries, e.g. (objectClass=groupOfNames). If set, the user's groups are searched for after the bind. */
+    filter?: string;
+    /** Group attribute that lists the members (default: member) */
+    memberAttribute: string;
+    /** Whether the member attribute holds user DNs or user ids (default: uid for memberUid, otherwise dn) */
+    memberValue: 'dn' | 'uid';
+    /** How nested group memberships are resolved, `none` only uses the direct groups (default: none) */
+    expansion: 'none' | 'matchingRuleInChain' | 'tokenGroups' | 'recursive';
+    /** Maximum number of levels walked by the `recursive` expansion (default: 10) */
+    maxDepth: number;
+  };
+  /** Changing expired passwords on sign-in */
+  passwordChange: {
+    /** Whether users can change an expired password on sign-in (default: false) */
+    enabled: boolean;
+    /** `passwordModify` uses the RFC 3062 extended operation, `unicodePwd` the Active Directory attribute (default: passwordModify) */
+    method: 'passwordModify' | 'unicodePwd';
+  };
+  /** Checks refusing accounts that are disabled, locked or expired in the directory */
+  accountStatus: {
+    /** The checks run on the user's entry after the password was accepted and on every refresh */
+    checkers: LdapAccountStatusChecker[];
+    /** Filter that the entries of enabled accounts match, e.g. (!(employeeStatus=terminated)) */
+    filter?: string;
+  };
+}
+
+/**
+ * Why an account can't sign in even though the directory accepted its
+ * password.
+ */
+export type LdapAccountStatus =
+  | 'accountDisabled'
+  | 'accountLocked'
+  | 'accountExpired';
+
+/**
+ * The directory entry of a user, with the attributes requested in the user
+ * search.
+ */
+export type LdapEntry = {
+  dn: string;
+  [attribute: string]: string | string[] | Buffer | Buffer[];
+};
+
+/**
+ * Tells from the directory entry of a user whether their account is
+ * disabled, locked or expired, for directories that still accept binds of
+ * such accounts or that are only searched when a session is refreshed.
+ */
+export interface LdapAccountStatusChecker {
+  /** Attributes of the user entry the check needs */
+  attributes: string[];
+  /** Returns why the account can't sign in, or undefined if it can */
+  check(entry: LdapEntry): LdapAccountStatus | undefined;
 }
 
 /**
@@ -49,12 +170,18 @@ export interface LdapUserInfo {
   uid: string;
   /** The user's display name */
   displayName?: string;
+  /** The user's picture, as a data URL or a URL */
+  picture?: string;
   /** The user's email address */
   email?: string;
+  /** The user's immutable id from entryUUID, objectGUID or ipaUniqueID, lowercased */
+  uuid?: string;
   /** The user's member-of groups (DNs or CNs) */
   memberOf?: string[];
+  /** DNs of all groups the user is a member of, directly or nested, if group expansion is configured */
+  groups?: string[];
   /** Any additional LDAP attributes returned */
-  attributes: Record<string, string | string[] | undefined>;
+  attributes: Record<string, string | string[] | Buffer | Buffer[] | undefined>;
 }
 
 /**
@@ -63,6 +190,10 @@ export interface LdapUserInfo {
 export interface LdapAuthResult {
   /** The authenticated user's full LDAP information */
   userInfo: LdapUserInfo;
+  /** Entity refs mapped from the user's groups by the groupMapping config, added to the ownership claims of the token */
+  groupEntityRefs?: string[];
+  /** Name of the directory the user signed in to, `default` unless `directories` are configured */
+  directory?: string;
 }
 
 /**
@@ -78,5 +209,14 @@ export interface LdapAuthResponse {
   providerInfo: {
     uid: string;
     memberOf?: string[];
+    directory?: string;
   };
 }
+
+/**
+ * Transforms the authenticated LDAP user into the profile that is returned
+ * to the frontend and passed to sign-in resolvers.
+ */
+export type LdapProfileTransform = (
+  userInfo: LdapUserInfo,
+) => LdapAuthResponse['profile'];
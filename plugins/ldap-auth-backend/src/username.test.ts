@@ -0,0 +1,78 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConfigReader } from '@backstage/config';
+import {
+  normalizeUsername,
+  readLdapUsernameNormalizationConfig,
+} from './username';
+
+function readNormalization(usernameNormalization?: object) {
+  return readLdapUsernameNormalizationConfig(
+    new ConfigReader(usernameNormalization ? { usernameNormalization } : {}),
+  );
+}
+
+describe('normalizeUsername', () => {
+  it('should trim and compose the username by default', () => {
+    const normalization = readNormalization();
+
+    expect(normalizeUsername('  JDoe ', normalization)).toBe('JDoe');
+    expect(normalizeUsername('jose\u0301', normalization)).toBe('jos\u00e9');
+  });
+
+  it('should strip the domain and fold the case', () => {
+    const normalization = readNormalization({
+      stripDomain: true,
+      case: 'lower',
+    });
+
+    expect(normalizeUsername('CORP\\JDoe', normalization)).toBe('jdoe');
+    expect(normalizeUsername('JDoe@corp.example.org', normalization)).toBe(
+      'jdoe',
+    );
+    expect(normalizeUsername('jdoe', normalization)).toBe('jdoe');
+  });
+
+  it('should apply the rewrites in order', () => {
+    const normalization = readNormalization({
+      rewrites: [
+        { pattern: '^adm-(.*)$', replacement: '$1' },
+        { pattern: '\\.', replacement: '_' },
+      ],
+    });
+
+    expect(normalizeUsername('adm-john.doe', normalization)).toBe('john_doe');
+  });
+
+  it('should leave the username as typed if configured', () => {
+    const normalization = readNormalization({ trim: false, unicode: 'none' });
+
+    expect(normalizeUsername(' jose\u0301', normalization)).toBe(' jose\u0301');
+  });
+});
+
+describe('readLdapUsernameNormalizationConfig', () => {
+  it('should reject invalid settings', () => {
+    expect(() => readNormalization({ case: 'title' })).toThrow(
+      "Invalid usernameNormalization.case 'title'",
+    );
+    expect(() =>
+      readNormalization({ rewrites: [{ pattern: '(', replacement: '' }] }),
+    ).toThrow("Invalid LDAP usernameNormalization rewrite pattern '('");
+  });
+});
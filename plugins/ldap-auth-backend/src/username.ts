@@ -0,0 +1,120 @@
+/*
+ * Copyright 2024 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Config } from '@backstage/config';
+
+/**
+ * How the username typed by a user is normalized before it is routed to a
+ * directory and looked up. The steps run in the order of the fields.
+ *
+ * @internal
+ */
+export interface LdapUsernameNormalization {
+  /** Whether surrounding whitespace is removed */
+  trim: boolean;
+  /** Unicode normalization form, so that composed and decomposed characters match */
+  unicode: 'NFC' | 'NFKC' | 'none';
+  /** Whether a `DOMAIN\` prefix and an `@domain` suffix are removed */
+  stripDomain: boolean;
+  /** Regex rewrites applied in order, in which $1 to $9 refer to the captured groups */
+  rewrites: Array<{ pattern: RegExp; replacement: string }>;
+  /** Case folding of the result */
+  case: 'lower' | 'upper' | 'none';
+}
+
+/**
+ * Reads the `usernameNormalization` block of an LDAP environment config.
+ *
+ * @internal
+ */
+export function readLdapUsernameNormalizationConfig(
+  config: Config,
+): LdapUsernameNormalization {
+  const unicode =
+    config.getOptionalString('usernameNormalization.unicode') ?? 'NFC';
+  if (unicode !== 'NFC' && unicode !== 'NFKC' && unicode !== 'none') {
+    throw new Error(
+      `Invalid usernameNormalization.unicode '${unicode}', must be 'NFC', 'NFKC' or 'none'`,
+    );
+  }
+
+  const caseFolding =
+    config.getOptionalString('usernameNormalization.case') ?? 'none';
+  if (
+    caseFolding !== 'lower' &&
+    caseFolding !== 'upper' &&
+    caseFolding !== 'none'
+  ) {
+    throw new Error(
+      `Invalid usernameNormalization.case '${caseFolding}', must be 'lower', 'upper' or 'none'`,
+    );
+  }
+
+  const rewrites = (
+    config.getOptionalConfigArray('usernameNormalization.rewrites') ?? []
+  ).map(rewrite => {
+    const source = rewrite.getString('pattern');
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source);
+    } catch (error) {
+      throw new Error(
+        `Invalid LDAP usernameNormalization rewrite pattern '${source}'`,
+        { cause: error },
+      );
+    }
+    return { pattern, replacement: rewrite.getString('replacement') };
+  });
+
+  return {
+    trim: config.getOptionalBoolean('usernameNormalization.trim') ?? true,
+    unicode,
+    stripDomain:
+      config.getOptionalBoolean('usernameNormalization.stripDomain') ?? false,
+    rewrites,
+    case: caseFolding,
+  };
+}
+
+/**
+ * Normalizes a username typed by a user.
+ *
+ * @internal
+ */
+export function normalizeUsername(
+  username: string,
+  normalization: LdapUsernameNormalization,
+): string {
+  let result = username;
+  if (normalization.trim) {
+    result = result.trim();
+  }
+  if (normalization.unicode !== 'none') {
+    result = result.normalize(normalization.unicode);
+  }
+  if (normalization.stripDomain) {
+    result = result.replace(/^[^\\]*\\/, '').replace(/@[^@]*$/, '');
+  }
+  for (const { pattern, replacement } of normalization.rewrites) {
+    result = result.replace(pattern, replacement);
+  }
+  if (normalization.case === 'lower') {
+    result = result.toLowerCase();
+  } else if (normalization.case === 'upper') {
+    result = result.toUpperCase();
+  }
+  return result;
+}
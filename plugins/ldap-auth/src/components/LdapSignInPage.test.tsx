@@ -142,6 +142,254 @@ describe('LdapSignInPage', () => {
     expect(mockOnSignInSuccess).not.toHaveBeenCalled();
   });
 
+  it('should tell the user when the directory is unavailable', async () => {
+    const user = userEvent.setup();
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 503,
+      json: async () => ({
+        error: {
+          name: 'ServiceUnavailableError',
+          message: 'The LDAP directory is temporarily unavailable',
+          retryable: true,
+        },
+      }),
+    });
+
+    renderPage();
+
+    await user.type(getUsernameInput(), 'jdoe');
+    await user.type(getPasswordInput(), 'pass');
+    await user.click(getSubmitButton());
+
+    expect(
+      await screen.findByText(
+        'The directory is temporarily unavailable, please try again in a moment',
+      ),
+    ).toBeInTheDocument();
+    expect(mockOnSignInSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should let the user choose a new password when it has expired', async () => {
+    const user = userEvent.setup();
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: async () => ({
+          error: {
+            name: 'AuthenticationError',
+            message: 'Your password has expired and must be changed',
+            reason: 'passwordExpired',
+          },
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          backstageIdentity: {
+            token: 'test-token',
+            identity: {
+              type: 'user',
+              userEntityRef: 'user:default/jdoe',
+              ownershipEntityRefs: [],
+            },
+          },
+        }),
+      });
+
+    renderPage();
+
+    await user.type(getUsernameInput(), 'jdoe');
+    await user.type(getPasswordInput(), 'old-password');
+    await user.click(getSubmitButton());
+
+    expect(
+      await screen.findByText('Your password has expired, choose a new one'),
+    ).toBeInTheDocument();
+
+    const newPasswordInput = document.getElementById(
+      'ldap-new-password',
+    ) as HTMLInputElement;
+    const confirmPasswordInput = document.getElementById(
+      'ldap-confirm-password',
+    ) as HTMLInputElement;
+    const changeButton = screen.getByRole('button', {
+      name: /change password/i,
+    });
+
+    await user.type(newPasswordInput, 'new-password');
+    await user.type(confirmPasswordInput, 'other-password');
+    await user.click(changeButton);
+    expect(
+      await screen.findByText('The new passwords do not match'),
+    ).toBeInTheDocument();
+
+    await user.clear(confirmPasswordInput);
+    await user.type(confirmPasswordInput, 'new-password');
+    await user.click(changeButton);
+
+    await waitFor(() => {
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:7007/api/auth/ldap/password',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            username: 'jdoe',
+            password: 'old-password',
+            newPassword: 'new-password',
+          }),
+        }),
+      );
+    });
+    await waitFor(() => {
+      expect(mockOnSignInSuccess).toHaveBeenCalled();
+    });
+  });
+
+  it('should refresh an expired session instead of asking for the password', async () => {
+    const expired = `header.${btoa(JSON.stringify({ exp: 1 }))}.signature`;
+    const identity = {
+      type: 'user',
+      userEntityRef: 'user:default/jdoe',
+      ownershipEntityRefs: ['user:default/jdoe'],
+    };
+    localStorage.setItem(
+      'ldap-auth-session',
+      JSON.stringify({ token: expired, identity, profile: {} }),
+    );
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        backstageIdentity: { token: 'fresh-token', identity },
+        profile: { displayName: 'John Doe' },
+      }),
+    });
+
+    try {
+      renderPage();
+
+      expect(getUsernameInput()).toBeNull();
+      await waitFor(() => {
+        expect(mockOnSignInSuccess).toHaveBeenCalled();
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:7007/api/auth/ldap/refresh',
+        {
+          headers: { 'X-Requested-With': 'XMLHttpRequest' },
+          credentials: 'include',
+        },
+      );
+      const identityApi = mockOnSignInSuccess.mock.calls[0][0];
+      await expect(identityApi.getCredentials()).resolves.toEqual({
+        token: 'fresh-token',
+      });
+    } finally {
+      localStorage.removeItem('ldap-auth-session');
+    }
+  });
+
+  it('should show the form if the session can not be refreshed', async () => {
+    const expired = `header.${btoa(JSON.stringify({ exp: 1 }))}.signature`;
+    localStorage.setItem(
+      'ldap-auth-session',
+      JSON.stringify({
+        token: expired,
+        identity: {
+          type: 'user',
+          userEntityRef: 'user:default/jdoe',
+          ownershipEntityRefs: [],
+        },
+        profile: {},
+      }),
+    );
+    mockFetch.mockResolvedValue({ ok: false, status: 401 });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(getUsernameInput()).toBeTruthy();
+    });
+    expect(mockOnSignInSuccess).not.toHaveBeenCalled();
+    expect(localStorage.getItem('ldap-auth-session')).toBeNull();
+  });
+
+  it('should not store a refreshed session without ownership refs', async () => {
+    const expired = `header.${btoa(JSON.stringify({ exp: 1 }))}.signature`;
+    localStorage.setItem(
+      'ldap-auth-session',
+      JSON.stringify({
+        token: expired,
+        identity: {
+          type: 'user',
+          userEntityRef: 'user:default/jdoe',
+          ownershipEntityRefs: [],
+        },
+        profile: {},
+      }),
+    );
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        backstageIdentity: {
+          token: 'fresh-token',
+          identity: { type: 'user', userEntityRef: 'user:default/jdoe' },
+        },
+        profile: {},
+      }),
+    });
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(getUsernameInput()).toBeTruthy();
+    });
+    expect(mockOnSignInSuccess).not.toHaveBeenCalled();
+    expect(localStorage.getItem('ldap-auth-session')).toBeNull();
+  });
+
+  it('should end every session when signing out everywhere', async () => {
+    const valid = `header.${btoa(
+      JSON.stringify({ exp: Date.now() / 1000 + 3600 }),
+    )}.signature`;
+    localStorage.setItem(
+      'ldap-auth-session',
+      JSON.stringify({
+        token: valid,
+        identity: {
+          type: 'user',
+          userEntityRef: 'user:default/jdoe',
+          ownershipEntityRefs: [],
+        },
+        profile: {},
+      }),
+    );
+    mockFetch.mockResolvedValue({ ok: true });
+
+    render(
+      <TestApiProvider apis={[[discoveryApiRef, mockDiscoveryApi as any]]}>
+        <LdapSignInPage
+          onSignInSuccess={mockOnSignInSuccess}
+          signOutEverywhere
+        />
+      </TestApiProvider>,
+    );
+    await waitFor(() => {
+      expect(mockOnSignInSuccess).toHaveBeenCalled();
+    });
+    await mockOnSignInSuccess.mock.calls[0][0].signOut();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://localhost:7007/api/auth/ldap/logout?everywhere=true',
+      {
+        method: 'POST',
+        headers: { 'X-Requested-With': 'XMLHttpRequest' },
+        credentials: 'include',
+      },
+    );
+    expect(localStorage.getItem('ldap-auth-session')).toBeNull();
+  });
+
   it('should display error on network failure', async () => {
     const user = userEvent.setup();
     mockFetch.mockRejectedValue(new Error('Network error'));
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   Button,
   CircularProgress,
@@ -45,19 +45,24 @@ type StoredLdapSession = {
   profile: ProfileInfo;
 };
 
+function isStoredSession(value: unknown): value is StoredLdapSession {
+  const session = value as Partial<StoredLdapSession> | null | undefined;
+  return (
+    typeof session?.token === 'string' &&
+    session.identity?.type === 'user' &&
+    typeof session.identity.userEntityRef === 'string' &&
+    Array.isArray(session.identity.ownershipEntityRefs)
+  );
+}
+
 function safeParseStoredSession(
   value: string | null,
 ): StoredLdapSession | undefined {
   if (!value) return undefined;
   try {
-    const parsed = JSON.parse(value) as Partial<StoredLdapSession>;
-    if (
-      typeof parsed?.token === 'string' &&
-      parsed.identity?.type === 'user' &&
-      typeof parsed.identity.userEntityRef === 'string' &&
-      Array.isArray(parsed.identity.ownershipEntityRefs)
-    ) {
-      return parsed as StoredLdapSession;
+    const parsed: unknown = JSON.parse(value);
+    if (isStoredSession(parsed)) {
+      return parsed;
     }
   } catch {
     // ignore
@@ -91,16 +96,63 @@ function isExpired(token: string): boolean {
   return Date.now() > exp - 5 * 60 * 1000;
 }
 
-class StaticLdapIdentity implements IdentityApi {
+/**
+ * Reads the session from a sign-in or refresh response.
+ */
+function toStoredSession(data: unknown): StoredLdapSession | undefined {
+  const response = data as
+    | {
+        backstageIdentity?: { token?: unknown; identity?: unknown };
+        profile?: ProfileInfo;
+      }
+    | null
+    | undefined;
+  const session = {
+    token: response?.backstageIdentity?.token,
+    identity: response?.backstageIdentity?.identity,
+    profile: response?.profile ?? {},
+  };
+  return isStoredSession(session) ? session : undefined;
+}
+
+/**
+ * Gets a new session with the httpOnly refresh cookie that the backend sets
+ * on sign-in, and stores it.
+ */
+async function refreshSession(
+  discoveryApi: DiscoveryApi,
+): Promise<StoredLdapSession | undefined> {
+  try {
+    const authBaseUrl = await discoveryApi.getBaseUrl('auth');
+    const response = await fetch(`${authBaseUrl}/ldap/refresh`, {
+      headers: { 'X-Requested-With': 'XMLHttpRequest' },
+      credentials: 'include',
+    });
+    if (!response.ok) return undefined;
+    const session = toStoredSession(await response.json());
+    if (session) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    }
+    return session;
+  } catch {
+    return undefined;
+  }
+}
+
+class LdapIdentity implements IdentityApi {
   private readonly discoveryApi: DiscoveryApi;
-  private readonly session: StoredLdapSession;
+  private session: StoredLdapSession;
+  private readonly signOutEverywhere: boolean;
+  private refreshing?: Promise<void>;
 
   constructor(options: {
     discoveryApi: DiscoveryApi;
     session: StoredLdapSession;
+    signOutEverywhere?: boolean;
   }) {
     this.discoveryApi = options.discoveryApi;
     this.session = options.session;
+    this.signOutEverywhere = options.signOutEverywhere ?? false;
   }
 
   async getProfileInfo(): Promise<ProfileInfo> {
@@ -112,6 +164,18 @@ class StaticLdapIdentity implements IdentityApi {
   }
 
   async getCredentials(): Promise<{ token?: string }> {
+    if (isExpired(this.session.token)) {
+      this.refreshing ??= refreshSession(this.discoveryApi)
+        .then(session => {
+          if (session) {
+            this.session = session;
+          }
+        })
+        .finally(() => {
+          this.refreshing = undefined;
+        });
+      await this.refreshing;
+    }
     return { token: this.session.token };
   }
 
@@ -119,8 +183,10 @@ class StaticLdapIdentity implements IdentityApi {
     localStorage.removeItem(STORAGE_KEY);
     try {
       const authBaseUrl = await this.discoveryApi.getBaseUrl('auth');
-      await fetch(`${authBaseUrl}/ldap/logout`, {
+      const query = this.signOutEverywhere ? '?everywhere=true' : '';
+      await fetch(`${authBaseUrl}/ldap/logout${query}`, {
         method: 'POST',
+        headers: { 'X-Requested-With': 'XMLHttpRequest' },
         credentials: 'include',
       });
     } catch {
@@ -129,12 +195,23 @@ class StaticLdapIdentity implements IdentityApi {
   }
 }
 
+/**
+ * Thrown when the directory requires a new password before signing in.
+ */
+class PasswordExpiredError extends Error {}
+
 /**
  * Props for the LdapSignInPage component.
  *
  * @public
  */
-export type LdapSignInPageProps = SignInPageProps;
+export type LdapSignInPageProps = SignInPageProps & {
+  /**
+   * Whether signing out ends every session of the user, on any device,
+   * instead of only the current one.
+   */
+  signOutEverywhere?: boolean;
+};
 
 /**
  * A Material-UI based sign-in page that authenticates against an LDAP directory.
@@ -145,7 +222,7 @@ export type LdapSignInPageProps = SignInPageProps;
  * @public
  */
 export function LdapSignInPage(props: LdapSignInPageProps) {
-  const { onSignInSuccess } = props;
+  const { onSignInSuccess, signOutEverywhere } = props;
 
   const discoveryApi = useApi(discoveryApiRef);
 
@@ -154,22 +231,106 @@ export function LdapSignInPage(props: LdapSignInPageProps) {
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [passwordExpired, setPasswordExpired] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
 
-  const cachedIdentityApi = useMemo(() => {
+  // An expired session is refreshed with the refresh cookie before the
+  // form is shown
+  const [restoring, setRestoring] = useState(() => {
+    const stored = safeParseStoredSession(localStorage.getItem(STORAGE_KEY));
+    return stored !== undefined && isExpired(stored.token);
+  });
+
+  useEffect(() => {
     const stored = safeParseStoredSession(localStorage.getItem(STORAGE_KEY));
     if (!stored) return undefined;
-    if (isExpired(stored.token)) {
-      localStorage.removeItem(STORAGE_KEY);
+    if (!isExpired(stored.token)) {
+      onSignInSuccess(
+        new LdapIdentity({
+          discoveryApi,
+          session: stored,
+          signOutEverywhere,
+        }),
+      );
       return undefined;
     }
-    return new StaticLdapIdentity({ discoveryApi, session: stored });
-  }, [discoveryApi]);
 
-  useEffect(() => {
-    if (cachedIdentityApi) {
-      onSignInSuccess(cachedIdentityApi);
-    }
-  }, [cachedIdentityApi, onSignInSuccess]);
+    let cancelled = false;
+    refreshSession(discoveryApi).then(session => {
+      if (cancelled) return;
+      if (session) {
+        onSignInSuccess(
+          new LdapIdentity({ discoveryApi, session, signOutEverywhere }),
+        );
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+        setRestoring(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [discoveryApi, onSignInSuccess, signOutEverywhere]);
+
+  /**
+   * Posts the credentials to one of the LDAP auth routes and completes the
+   * sign-in with the returned identity.
+   */
+  const signIn = useCallback(
+    async (path: string, credentials: Record<string, string>) => {
+      const authBaseUrl = await discoveryApi.getBaseUrl('auth');
+      const response = await fetch(`${authBaseUrl}/ldap/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(credentials),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        if (response.status === 503 || body.error?.retryable) {
+          throw new Error(
+            'The directory is temporarily unavailable, please try again in a moment',
+          );
+        }
+        if (
+          body.error?.reason === 'passwordExpired' ||
+          body.error?.reason === 'passwordMustChange'
+        ) {
+          throw new PasswordExpiredError(body.error.message);
+        }
+        throw new Error(
+          body.error?.message ??
+            body.error ??
+            `Authentication failed (${response.status})`,
+        );
+      }
+
+      const data = await response.json();
+
+      if (data.error) {
+        throw new Error(data.error.message ?? data.error);
+      }
+
+      const session = toStoredSession(data);
+      if (!session) {
+        throw new Error(
+          'Authentication succeeded but no identity was returned',
+        );
+      }
+
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+      setPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+
+      onSignInSuccess(
+        new LdapIdentity({ discoveryApi, session, signOutEverywhere }),
+      );
+    },
+    [onSignInSuccess, discoveryApi, signOutEverywhere],
+  );
 
   const handleSubmit = useCallback(
     async (event: React.FormEvent) => {
@@ -184,56 +345,67 @@ export function LdapSignInPage(props: LdapSignInPageProps) {
       setLoading(true);
 
       try {
-        const authBaseUrl = await discoveryApi.getBaseUrl('auth');
-        const response = await fetch(`${authBaseUrl}/ldap/handler/frame`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          credentials: 'include',
-          body: JSON.stringify({ username: username.trim(), password }),
-        });
-
-        if (!response.ok) {
-          const body = await response.json().catch(() => ({}));
-          throw new Error(
-            body.error?.message ??
-              body.error ??
-              `Authentication failed (${response.status})`,
-          );
-        }
-
-        const data = await response.json();
-
-        if (data.error) {
-          throw new Error(data.error.message ?? data.error);
+        await signIn('handler/frame', { username: username.trim(), password });
+      } catch (err: unknown) {
+        if (err instanceof PasswordExpiredError) {
+          setPasswordExpired(true);
+          return;
         }
+        const message =
+          err instanceof Error ? err.message : 'Authentication failed';
+        setError(message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [username, password, signIn],
+  );
 
-        const session: StoredLdapSession = {
-          token: data.backstageIdentity?.token,
-          identity: data.backstageIdentity?.identity,
-          profile: data.profile ?? {},
-        };
+  const handlePasswordChange = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault();
+      setError(null);
 
-        if (!session.token || !session.identity) {
-          throw new Error(
-            'Authentication succeeded but no identity was returned',
-          );
-        }
+      if (!newPassword) {
+        setError('Please enter a new password');
+        return;
+      }
+      if (newPassword !== confirmPassword) {
+        setError('The new passwords do not match');
+        return;
+      }
+      if (newPassword === password) {
+        setError('The new password must differ from the old one');
+        return;
+      }
 
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
-        setPassword('');
+      setLoading(true);
 
-        onSignInSuccess(new StaticLdapIdentity({ discoveryApi, session }));
+      try {
+        await signIn('password', {
+          username: username.trim(),
+          password,
+          newPassword,
+        });
       } catch (err: unknown) {
         const message =
-          err instanceof Error ? err.message : 'Authentication failed';
+          err instanceof Error ? err.message : 'Changing the password failed';
         setError(message);
       } finally {
         setLoading(false);
       }
     },
-    [username, password, onSignInSuccess, discoveryApi],
+    [username, password, newPassword, confirmPassword, signIn],
   );
 
+  const handleCancelPasswordChange = useCallback(() => {
+    setPasswordExpired(false);
+    setPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setError(null);
+  }, []);
+
   return (
     <Box
       sx={{
@@ -276,66 +448,133 @@ export function LdapSignInPage(props: LdapSignInPageProps) {
           </Alert>
         )}
 
-        <Box component="form" onSubmit={handleSubmit} noValidate>
-          <TextField
-            id="ldap-username"
-            label="Username"
-            variant="outlined"
-            fullWidth
-            required
-            autoFocus
-            autoComplete="username"
-            value={username}
-            onChange={e => setUsername(e.target.value)}
-            disabled={loading}
-            sx={{ mb: 2 }}
-          />
-
-          <TextField
-            id="ldap-password"
-            label="Password"
-            type={showPassword ? 'text' : 'password'}
-            variant="outlined"
-            fullWidth
-            required
-            autoComplete="current-password"
-            value={password}
-            onChange={e => setPassword(e.target.value)}
-            disabled={loading}
-            InputProps={{
-              endAdornment: (
-                <InputAdornment position="end">
-                  <IconButton
-                    aria-label="toggle password visibility"
-                    onClick={() => setShowPassword(prev => !prev)}
-                    edge="end"
-                    size="small"
-                  >
-                    {showPassword ? <VisibilityOff /> : <Visibility />}
-                  </IconButton>
-                </InputAdornment>
-              ),
-            }}
-            sx={{ mb: 3 }}
-          />
-
-          <Button
-            id="ldap-sign-in-button"
-            type="submit"
-            variant="contained"
-            color="primary"
-            fullWidth
-            size="large"
-            disabled={loading}
-            sx={{ py: 1.5 }}
-          >
-            {loading ? (
-              <CircularProgress size={24} color="inherit" />
-            ) : (
-              'Sign In'
-            )}
-          </Button>
-        </Box>
+        {restoring && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {!restoring &&
+          (passwordExpired ? (
+            <Box component="form" onSubmit={handlePasswordChange} noValidate>
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Your password has expired, choose a new one
+              </Alert>
+
+              <TextField
+                id="ldap-new-password"
+                label="New password"
+                type="password"
+                variant="outlined"
+                fullWidth
+                required
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={e => setNewPassword(e.target.value)}
+                disabled={loading}
+                sx={{ mb: 2 }}
+              />
+
+              <TextField
+                id="ldap-confirm-password"
+                label="Confirm new password"
+                type="password"
+                variant="outlined"
+                fullWidth
+                required
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={e => setConfirmPassword(e.target.value)}
+                disabled={loading}
+                sx={{ mb: 3 }}
+              />
+
+              <Button
+                id="ldap-change-password-button"
+                type="submit"
+                variant="contained"
+                color="primary"
+                fullWidth
+                size="large"
+                disabled={loading}
+                sx={{ py: 1.5, mb: 1 }}
+              >
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Change password'
+                )}
+              </Button>
+              <Button
+                fullWidth
+                onClick={handleCancelPasswordChange}
+                disabled={loading}
+              >
+                Cancel
+              </Button>
+            </Box>
+          ) : (
+            <Box component="form" onSubmit={handleSubmit} noValidate>
+              <TextField
+                id="ldap-username"
+                label="Username"
+                variant="outlined"
+                fullWidth
+                required
+                autoFocus
+                autoComplete="username"
+                value={username}
+                onChange={e => setUsername(e.target.value)}
+                disabled={loading}
+                sx={{ mb: 2 }}
+              />
+
+              <TextField
+                id="ldap-password"
+                label="Password"
+                type={showPassword ? 'text' : 'password'}
+                variant="outlined"
+                fullWidth
+                required
+                autoComplete="current-password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                disabled={loading}
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton
+                        aria-label="toggle password visibility"
+                        onClick={() => setShowPassword(prev => !prev)}
+                        edge="end"
+                        size="small"
+                      >
+                        {showPassword ? <VisibilityOff /> : <Visibility />}
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+                sx={{ mb: 3 }}
+              />
+
+              <Button
+                id="ldap-sign-in-button"
+                type="submit"
+                variant="contained"
+                color="primary"
+                fullWidth
+                size="large"
+                disabled={loading}
+                sx={{ py: 1.5 }}
+              >
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Sign In'
+                )}
+              </Button>
+            </Box>
+          ))}
       </Paper>
     </Box>
   );